@@ -1,18 +1,18 @@
 import { useState, useEffect, useRef, useMemo, useCallback, memo } from "react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
-import { Input } from "@/components/ui/input"
 import {
   Dialog,
   DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
   DialogTrigger
 } from "@/components/ui/dialog"
+import {
+  Sheet,
+  SheetContent,
+  SheetTrigger
+} from "@/components/ui/sheet"
 
-import { SendIcon, RefreshCw, Check, ChevronDown, Copy, CheckCheck, PanelLeftClose, PanelLeftOpen, Settings, ChevronLeft, ChevronRight, PlusSquare, Trash2, Edit, Play, InfoIcon, Box } from "lucide-react"
+import { SendIcon, RefreshCw, Check, ChevronDown, Copy, CheckCheck, PanelLeftClose, PanelLeftOpen, Settings, ChevronLeft, ChevronRight, PlusSquare, Trash2, Edit, Play, InfoIcon, Square, SlidersHorizontal, Braces, AlertTriangle, ShieldAlert, Coins, Activity, Eye, Search, History, Table } from "lucide-react"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -25,8 +25,43 @@ import rehypeSanitize from 'rehype-sanitize'
 import remarkGfm from 'remark-gfm'
 import 'highlight.js/styles/github-dark.css'
 import copy from 'copy-to-clipboard'
-import PromptTemplate, { PromptTemplateType } from "@/components/PromptTemplate"
-import Examples, { Example, exampleTypeLabels } from "@/components/Examples"
+import PromptTemplate, { PromptTemplateType, TemplateInput, applyTemplateVariables, getTemplateAttachments, getTemplateErrors, getTemplateField, getTemplateVariableValues, getTemplateVariables } from "@/components/PromptTemplate"
+import Examples, { Example, getExampleFields, normalizeExample } from "@/components/Examples"
+import ProviderSettings, { ProviderSettingsValues } from "@/components/ProviderSettings"
+import GenerationSettingsEditor from "@/components/GenerationSettingsEditor"
+import OutputSettingsEditor from "@/components/OutputSettingsEditor"
+import JsonTree from "@/components/JsonTree"
+import TokenMeter from "@/components/TokenMeter"
+import ModelSelector from "@/components/ModelSelector"
+import Attachments from "@/components/Attachments"
+import FinishNotice from "@/components/FinishNotice"
+import SafetySettingsEditor from "@/components/SafetySettingsEditor"
+import UsageSummary, { ModelUsage } from "@/components/UsageSummary"
+import InspectorPanel from "@/components/InspectorPanel"
+import PayloadPreview from "@/components/PayloadPreview"
+import HistorySettingsEditor from "@/components/HistorySettingsEditor"
+import TemplateVariablesForm from "@/components/TemplateVariablesForm"
+import BatchRunner from "@/components/BatchRunner"
+import { useTokenCount } from "@/hooks/use-token-count"
+import { useModelList } from "@/hooks/use-model-list"
+import { BatchRowRunner, useBatchRun } from "@/hooks/use-batch-run"
+import { PROVIDERS, PROVIDER_IDS, ApiContent, ApiPart, ApiPayload, FinishDetails, GenerateRequest, GenerateResult, Usage, ProviderConfig, ProviderId, createDefaultProviderConfigs, generate } from "@/lib/providers"
+import { DEFAULT_MODEL, DEFAULT_PROVIDER_MODELS, Model, mergeModelLists, resolveModelProvider, getGenerationLimits, getInputTokenLimit } from "@/lib/models"
+import { DEFAULT_GENERATION_SETTINGS, GenerationSettings, fitGenerationSettings, validateGenerationSettings } from "@/lib/generation-settings"
+import { estimateContentTokens, formatTokenCount } from "@/lib/tokens"
+import { debugLog, logPerformance } from "@/lib/debug"
+import { TemplateVariableValues, substituteVariables } from "@/lib/template-variables"
+import { formatFieldValue } from "@/lib/template-fields"
+import { applyColumnMapping } from "@/lib/batch"
+import { EXPORT_FORMATS, ExportFormat, exportPrompt } from "@/lib/prompt-export"
+import { DEFAULT_HISTORY_SETTINGS, HISTORY_STRATEGIES, HistoryInfo, HistorySettings, HistorySummary, buildSummaryPrompt, formatSummaryTurn, slidingWindowStart, summarizeStart, toTranscript, tokenBudgetStart } from "@/lib/history"
+import { ExampleSchema, findExampleSchema, getExampleSchemas } from "@/lib/example-schemas"
+import { DEFAULT_EXAMPLE_SELECTION, ExampleRetrieval, ExampleSelectionSettings, RETRIEVAL_BACKENDS, RankedDocument, buildBm25Index, rankBm25, rankByEmbeddings } from "@/lib/example-retrieval"
+import { DEFAULT_EXAMPLE_SERIALIZATION, EXAMPLE_SERIALIZATIONS, ExampleSerialization, toXmlTagNames } from "@/lib/example-serialization"
+import { DEFAULT_MODEL_PRICES, ModelPrice, addUsage, estimateCost, formatCost } from "@/lib/pricing"
+import { Attachment, MAX_MESSAGE_ATTACHMENTS_BYTES, readFilesAsAttachments, toInlineDataPart } from "@/lib/attachments"
+import { DEFAULT_SAFETY_SETTINGS, HARM_CATEGORIES, HARM_BLOCK_THRESHOLDS, SafetySettings, countCustomSafetySettings } from "@/lib/safety-settings"
+import { DEFAULT_OUTPUT_SETTINGS, JsonValidation, OutputSettings, extractJsonText, parseJsonSchema, validateJsonReply } from "@/lib/json-schema"
 
 // Define types for messages, examples and API
 type MessageRole = 'user' | 'assistant';
@@ -35,29 +70,37 @@ type Message = {
   content: string;
   id?: string;
   activeExampleIds?: string[]; // This field is now deprecated but kept for backward compatibility
+  reasoning?: string; // Thought summaries from thinking models
+  stopped?: boolean; // Generation was cancelled before the response finished
+  jsonValidation?: JsonValidation; // Set on replies generated in JSON output mode
+  finish?: FinishDetails; // Set when the reply was cut off or blocked
+  attachments?: Attachment[]; // Files sent with a user message
+  model?: string; // Model that generated the reply
+  usage?: Usage; // Token counts reported by the provider
+  latencyMs?: number; // Time from sending the request to the last chunk
+  retrieval?: ExampleRetrieval; // Examples picked for the reply, when examples are retrieved by similarity
+  summaryError?: string; // Summarizing older messages failed, so the reply was sent the full history
 };
 
-// For model selection
-type Model = {
-  name: string;
-  displayName: string;
-  version?: string;
-  description?: string;
-};
-
-// Available models
-export const MODELS: Model[] = [
-  { name: "gemini-2.5-pro-preview-03-25", displayName: "Gemini 2.5 Pro Preview" },
-  { name: "gemini-2.0-flash", displayName: "Gemini 2.0 Flash" },
-  { name: "gemini-2.0-flash-thinking-exp-01-21", displayName: "Gemini 2.0 Flash Thinking" },
-];
-
 // Local storage keys
 export const MESSAGES_STORAGE_KEY = 'few-shot-chatbot-messages';
 export const SELECTED_MODEL_STORAGE_KEY = 'few-shot-chatbot-selected-model';
 export const API_KEY_STORAGE_KEY = 'few-shot-chatbot-api-key';
 export const PROMPT_TEMPLATE_STORAGE_KEY = 'few-shot-chatbot-prompt-template';
 export const EXAMPLES_STORAGE_KEY = 'few-shot-chatbot-examples';
+export const PROVIDER_CONFIGS_STORAGE_KEY = 'few-shot-chatbot-provider-configs';
+export const CUSTOM_MODELS_STORAGE_KEY = 'few-shot-chatbot-custom-models';
+export const MODEL_PROVIDERS_STORAGE_KEY = 'few-shot-chatbot-model-providers';
+export const GENERATION_SETTINGS_STORAGE_KEY = 'few-shot-chatbot-generation-settings';
+export const OUTPUT_SETTINGS_STORAGE_KEY = 'few-shot-chatbot-output-settings';
+export const SAFETY_SETTINGS_STORAGE_KEY = 'few-shot-chatbot-safety-settings';
+export const MODEL_PRICES_STORAGE_KEY = 'few-shot-chatbot-model-prices';
+export const EXAMPLE_SERIALIZATION_STORAGE_KEY = 'few-shot-chatbot-example-serialization';
+export const EXAMPLE_SCHEMAS_STORAGE_KEY = 'few-shot-chatbot-example-schemas';
+export const ACTIVE_EXAMPLE_IDS_STORAGE_KEY = 'few-shot-chatbot-active-example-ids';
+export const EXAMPLE_SELECTION_STORAGE_KEY = 'few-shot-chatbot-example-selection';
+export const HISTORY_SETTINGS_STORAGE_KEY = 'few-shot-chatbot-history-settings';
+export const HISTORY_SUMMARY_STORAGE_KEY = 'few-shot-chatbot-history-summary';
 
 // Create a default template function
 const createDefaultTemplate = (): PromptTemplateType => {
@@ -78,64 +121,181 @@ const createDefaultTemplate = (): PromptTemplateType => {
   };
 };
 
-// Debug logger function to standardize console logging format
-const debugLog = (message: string, data?: any) => {
-  const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
-  console.log(`[${timestamp}] ${message}`, data ? data : '');
+// The user turn of a run, which has no user message of its own
+const RUN_INSTRUCTION = "Based on the information provided above, please respond following the instructions.";
+
+// Template block content as sent - input blocks are their value serialized by field type,
+// other blocks get {{placeholders}} filled in
+const formatTemplateInput = (input: TemplateInput, values: TemplateVariableValues): string =>
+  input.type === 'input'
+    ? formatFieldValue(getTemplateField(input), input.content, input.attachments)
+    : substituteVariables(input.content, values);
+
+// Function to format prompt template for API (system blocks are sent separately)
+const formatPromptTemplate = (template: PromptTemplateType): string => {
+  const values = getTemplateVariableValues(template);
+  return template.inputs
+    .filter(input => input.type !== 'system')
+    .map(input => formatTemplateInput(input, values))
+    .join('\n\n');
 };
 
-// Performance logger function to track function execution time
-const logPerformance = (functionName: string, startTime: number) => {
-  const duration = performance.now() - startTime;
-  console.log(`[PERF] ${functionName} took ${duration.toFixed(2)}ms to execute`);
+// Function to format the template's system blocks into the system instruction
+const formatSystemInstruction = (template: PromptTemplateType): string => {
+  const values = getTemplateVariableValues(template);
+  return template.inputs
+    .filter(input => input.type === 'system' && input.content.trim())
+    .map(input => formatTemplateInput(input, values))
+    .join('\n\n');
 };
 
-// Function to format prompt template for API
-const formatPromptTemplate = (template: PromptTemplateType): string => {
-  return template.inputs.map(input => {
-    // Just return the content regardless of type
-    return input.content;
-  }).join('\n\n');
+// The system instruction as a content, for counting it alongside the other sections
+const systemInstructionContents = (systemInstruction: string): ApiContent[] =>
+  systemInstruction ? [{ role: 'user', parts: [{ text: systemInstruction }] }] : [];
+
+// Text and file parts of one turn (empty text is left out)
+const generateTurnParts = (text: string, attachments: Attachment[] = []): ApiPart[] => [
+  ...(text ? [{ text }] : []),
+  ...attachments.map(toInlineDataPart)
+];
+
+// Accumulates text and attachment parts, merging consecutive text into one part
+const createPartsBuilder = () => {
+  const parts: ApiPart[] = [];
+  let text = "";
+  return {
+    addText: (value: string) => {
+      text += value;
+    },
+    addAttachments: (attachments: Attachment[] = []) => {
+      if (attachments.length === 0) return;
+      if (text) parts.push({ text });
+      text = "";
+      parts.push(...attachments.map(toInlineDataPart));
+    },
+    build: (): ApiPart[] => text ? [...parts, { text }] : parts
+  };
 };
 
-// Function to format examples for API
-const formatExamples = (examples: Example[]): string => {
-  let examplesText = "";
+// Function to format examples for API - each field's attachments follow its text as inlineData parts
+const formatExamples = (examples: Example[], schemas: ExampleSchema[]): ApiPart[] => {
+  const builder = createPartsBuilder();
   examples.forEach((example) => {
-    const labels = exampleTypeLabels[example.type];
-    examplesText += `${labels.first}:\n${example.firstField}\n\n`;
-    examplesText += `${labels.second}:\n${example.secondField}\n\n\n`;
+    getExampleFields(example, findExampleSchema(schemas, example.schemaId)).forEach((field, i, fields) => {
+      builder.addText(`${field.label}:\n${field.value}\n\n${i === fields.length - 1 ? '\n' : ''}`);
+      builder.addAttachments(field.attachments);
+    });
   });
-  return examplesText;
+  return builder.build();
 };
 
-// Function to generate API payload with examples and template
-const generateApiContents = (examples: Example[], promptTemplate: PromptTemplateType): any[] => {
-  const contents: any[] = [];
-  
+// Function to format examples as one XML document, e.g. <example><input>...</input><output>...</output></example>
+const formatExamplesAsXml = (examples: Example[], schemas: ExampleSchema[]): ApiPart[] => {
+  const builder = createPartsBuilder();
+  builder.addText("<examples>\n");
+  examples.forEach((example, index) => {
+    builder.addText(`<example index="${index + 1}">\n`);
+    const fields = getExampleFields(example, findExampleSchema(schemas, example.schemaId));
+    const tags = toXmlTagNames(fields.map(field => field.label));
+    fields.forEach((field, fieldIndex) => {
+      const tag = tags[fieldIndex];
+      builder.addText(`<${tag}>\n${field.value}\n`);
+      builder.addAttachments(field.attachments);
+      builder.addText(`</${tag}>\n`);
+    });
+    builder.addText(`</example>\n`);
+  });
+  builder.addText("</examples>");
+  return builder.build();
+};
+
+// Function to format each example as a user turn followed by a model turn. The last field is the
+// model's answer; with more than one field before it, they are labelled in the user turn.
+const formatExamplesAsTurns = (examples: Example[], schemas: ExampleSchema[]): ApiContent[] => {
+  return examples.flatMap((example): ApiContent[] => {
+    const fields = getExampleFields(example, findExampleSchema(schemas, example.schemaId));
+    const answer = fields[fields.length - 1];
+    const promptFields = fields.slice(0, -1);
+    const builder = createPartsBuilder();
+    promptFields.forEach((field, i) => {
+      builder.addText(promptFields.length > 1 ? `${i > 0 ? '\n\n' : ''}${field.label}:\n${field.value}` : field.value);
+      builder.addAttachments(field.attachments);
+    });
+    return [
+      { role: 'user', parts: builder.build() },
+      { role: 'model', parts: generateTurnParts(answer?.value ?? "", answer?.attachments) }
+    ];
+  }).filter(content => content.parts.length > 0); // Providers reject empty turns
+};
+
+// Function to generate the examples turn(s), laid out according to the serialization strategy
+const generateExampleContents = (
+  examples: Example[],
+  serialization: ExampleSerialization,
+  schemas: ExampleSchema[]
+): ApiContent[] => {
   // Format and add examples if any exist
-  if (examples.length > 0) {
-    const formattedExamples = formatExamples(examples);
-    if (formattedExamples) {
-      contents.push({
-        role: 'user' as const,
-        parts: [{ text: formattedExamples }]
-      });
-    }
+  if (examples.length === 0) return [];
+
+  if (serialization === 'alternating-turns') {
+    return formatExamplesAsTurns(examples, schemas);
   }
-  
+
+  const formattedExamples = serialization === 'xml-tagged'
+    ? formatExamplesAsXml(examples, schemas)
+    : formatExamples(examples, schemas);
+  if (formattedExamples.length > 0) {
+    return [{
+      role: 'user' as const,
+      parts: formattedExamples
+    }];
+  }
+  return [];
+};
+
+// Function to generate the template turn - files of file fields that aren't inlined follow the text
+const generateTemplateContents = (promptTemplate: PromptTemplateType): ApiContent[] => {
   // Format and add template if it has inputs
   if (promptTemplate?.inputs?.length > 0) {
-    const formattedTemplate = formatPromptTemplate(promptTemplate);
-    if (formattedTemplate) {
-      contents.push({
+    const parts = generateTurnParts(formatPromptTemplate(promptTemplate), getTemplateAttachments(promptTemplate));
+    if (parts.length > 0) {
+      return [{
         role: 'user' as const,
-        parts: [{ text: formattedTemplate }]
-      });
+        parts
+      }];
     }
   }
-  
-  return contents;
+  return [];
+};
+
+// Function to generate API payload with examples and template
+const generateApiContents = (
+  examples: Example[],
+  promptTemplate: PromptTemplateType,
+  exampleSerialization: ExampleSerialization,
+  exampleSchemas: ExampleSchema[]
+): ApiContent[] => {
+  return [
+    ...generateExampleContents(examples, exampleSerialization, exampleSchemas),
+    ...generateTemplateContents(promptTemplate)
+  ];
+};
+
+// Text an example is matched on when retrieving - the fields before the answer (the last field)
+const exampleRetrievalText = (example: Example, schemas: ExampleSchema[]): string => {
+  const fields = getExampleFields(example, findExampleSchema(schemas, example.schemaId));
+  return (fields.length > 1 ? fields.slice(0, -1) : fields).map(field => field.value).join('\n');
+};
+
+// Function to convert conversation messages to API contents
+const generateMessageContents = (messages: Message[]): ApiContent[] => {
+  return messages
+    .map((msg): ApiContent => ({
+      role: msg.role === 'assistant' ? 'model' : 'user',
+      parts: generateTurnParts(msg.content, msg.attachments)
+    }))
+    // Blocked replies have no text, and providers reject empty turns
+    .filter(content => content.parts.length > 0);
 };
 
 // Check if localStorage is available
@@ -161,7 +321,7 @@ function useRenderCount(componentName: string) {
   useEffect(() => {
     const now = performance.now();
     const timeSinceLastRender = now - lastRenderTime.current;
-    console.log(`[RENDER] ${componentName} rendered #${renderCount.current} (${timeSinceLastRender.toFixed(2)}ms since last render)`);
+    debugLog(`[RENDER] ${componentName} rendered #${renderCount.current} (${timeSinceLastRender.toFixed(2)}ms since last render)`);
     lastRenderTime.current = now;
   });
 }
@@ -177,7 +337,10 @@ const ChatMessage = memo(({
   saveMessageEdit, 
   cancelMessageEdit, 
   runFromMessage, 
-  isLoading 
+  continueMessage,
+  isLoading,
+  isStreaming,
+  price
 }: { 
   message: Message;
   index: number;
@@ -188,13 +351,26 @@ const ChatMessage = memo(({
   saveMessageEdit: () => void;
   cancelMessageEdit: () => void;
   runFromMessage: (index: number) => void;
+  continueMessage: (index: number) => void;
   isLoading: boolean;
+  isStreaming: boolean;
+  price?: ModelPrice; // Price of the model that generated the reply, for the cost estimate
 }) => {
+  // Valid JSON replies are shown as a tree instead of markdown
+  const parsedJson = useMemo(() => {
+    if (!message.jsonValidation?.valid) return undefined;
+    try {
+      return JSON.parse(extractJsonText(message.content));
+    } catch {
+      return undefined;
+    }
+  }, [message.content, message.jsonValidation]);
+
   // For logging render performance
   const renderTime = useRef(performance.now());
   useEffect(() => {
     const duration = performance.now() - renderTime.current;
-    console.log(`[PERF] ChatMessage ${index} (${message.role}) rendered in ${duration.toFixed(2)}ms`);
+    debugLog(`[PERF] ChatMessage ${index} (${message.role}) rendered in ${duration.toFixed(2)}ms`);
     renderTime.current = performance.now();
   });
 
@@ -277,15 +453,73 @@ const ChatMessage = memo(({
               </div>
             )}
 
-            {message.role === 'assistant' ? (
+            {message.retrieval && <RetrievedExamples retrieval={message.retrieval} />}
+
+            {message.stopped && (
+              <div
+                className="mb-2 text-xs text-muted-foreground flex items-center gap-1"
+                title="Generation was stopped before the response finished"
+              >
+                <Square className="h-[10px] w-[10px]" />
+                <span>Stopped</span>
+              </div>
+            )}
+
+            {/* Older messages were sent in full because summarizing them failed */}
+            {message.summaryError && (
+              <div className="mb-2 text-xs text-amber-500 flex items-center gap-1" title={message.summaryError}>
+                <AlertTriangle className="h-[12px] w-[12px]" />
+                <span>Couldn't summarize older messages - the full history was sent</span>
+              </div>
+            )}
+
+            {/* Flag JSON replies that don't match the response schema */}
+            {message.jsonValidation && !message.jsonValidation.valid && (
+              <div className="mb-2 text-xs text-amber-500 flex flex-col gap-0.5">
+                <div className="flex items-center gap-1 font-medium">
+                  <AlertTriangle className="h-[12px] w-[12px]" />
+                  <span>Reply does not match the response schema</span>
+                </div>
+                {message.jsonValidation.errors.slice(0, 5).map((error, i) => (
+                  <span key={i} className="font-mono pl-4">{error}</span>
+                ))}
+              </div>
+            )}
+
+            {/* Why the reply was cut off or blocked */}
+            {message.finish && (
+              <FinishNotice
+                finish={message.finish}
+                onContinue={() => continueMessage(index)}
+                disabled={isLoading}
+              />
+            )}
+
+            {/* Thought summaries from thinking models, collapsed by default */}
+            {message.reasoning && (
+              <ReasoningSection reasoning={message.reasoning} isStreaming={isStreaming && !message.content} />
+            )}
+
+            {message.role === 'assistant' && parsedJson !== undefined ? (
+              <JsonTree value={parsedJson} />
+            ) : message.role === 'assistant' ? (
               <div className="markdown-wrapper p-0">
-                <MarkdownContent content={message.content} />
+                <MarkdownContent content={message.content} isStreaming={isStreaming} />
               </div>
             ) : (
               <div className="hover:bg-opacity-90 transition-colors">
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className={message.content ? 'mb-2' : ''}>
+                    <Attachments attachments={message.attachments} />
+                  </div>
+                )}
                 {message.content}
               </div>
             )}
+
+            {message.role === 'assistant' && message.model && !isStreaming && (
+              <UsageFooter message={message} price={price} />
+            )}
           </div>
         )}
       </div>
@@ -307,14 +541,23 @@ const ChatMessage = memo(({
     return false;
   }
   
-  // Always re-render if message ID or content changed
-  if (prevProps.message.id !== nextProps.message.id || 
-      prevProps.message.content !== nextProps.message.content) {
+  // Always re-render if the message changed (updates always replace the message object)
+  if (prevProps.message !== nextProps.message) {
     return false;
   }
   
-  // Re-render if loading state changes (affects run button)
-  if (prevProps.isLoading !== nextProps.isLoading && prevProps.message.role === 'user') {
+  // Re-render when streaming starts or finishes (switches markdown rendering mode)
+  if (prevProps.isStreaming !== nextProps.isStreaming) {
+    return false;
+  }
+
+  // Re-render when the model's price is edited (changes the cost estimate)
+  if (prevProps.price !== nextProps.price) {
+    return false;
+  }
+
+  // Re-render if loading state changes (affects run and continue buttons)
+  if (prevProps.isLoading !== nextProps.isLoading && (prevProps.message.role === 'user' || prevProps.message.finish)) {
     return false;
   }
   
@@ -322,21 +565,89 @@ const ChatMessage = memo(({
   return true;
 });
 
+// The examples retrieved for a reply, with their similarity scores on hover
+const RetrievedExamples = ({ retrieval }: { retrieval: ExampleRetrieval }) => {
+  const backendLabel = RETRIEVAL_BACKENDS.find(backend => backend.value === retrieval.backend)?.label;
+  return (
+    <div className="mb-2 text-xs text-muted-foreground flex items-center gap-1 flex-wrap">
+      <Search className="h-[12px] w-[12px]" />
+      <span>{retrieval.examples.length} examples retrieved ({backendLabel}):</span>
+      {retrieval.examples.map(example => (
+        <span
+          key={example.id}
+          className="bg-muted/40 rounded px-1 py-0.5 max-w-[12rem] truncate"
+          title={`${example.label} · score ${example.score.toFixed(3)}`}
+        >
+          {example.label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+// Model, token usage, latency and estimated cost of a reply
+const UsageFooter = ({ message, price }: { message: Message; price?: ModelPrice }) => {
+  const { usage } = message;
+  const details = [
+    message.model,
+    usage && `${formatTokenCount(usage.promptTokens)} in`,
+    usage && `${formatTokenCount(usage.outputTokens)} out`,
+    usage?.thoughtTokens ? `${formatTokenCount(usage.thoughtTokens)} thoughts` : undefined,
+    message.latencyMs !== undefined ? `${(message.latencyMs / 1000).toFixed(1)}s` : undefined,
+    usage && price ? formatCost(estimateCost(usage, price)) : undefined
+  ].filter(Boolean);
+
+  return (
+    <div className="mt-3 text-[10px] text-muted-foreground/80 flex flex-wrap gap-x-1.5">
+      {details.join(' · ')}
+    </div>
+  );
+};
+
+// Collapsible "Reasoning" section shown above an assistant answer
+const ReasoningSection = memo(({ reasoning, isStreaming }: { reasoning: string; isStreaming: boolean }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mb-3 border-l-2 border-border/60 pl-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+        title={isOpen ? "Hide reasoning" : "Show reasoning"}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <span>{isStreaming ? 'Thinking…' : 'Reasoning'}</span>
+      </button>
+      {isOpen && (
+        <div className="mt-2 text-xs text-muted-foreground markdown-wrapper">
+          <MarkdownContent content={reasoning} isStreaming={isStreaming} />
+        </div>
+      )}
+    </div>
+  );
+});
+
+// Markdown plugins are module-level so ReactMarkdown doesn't see new arrays on every render.
+// Syntax highlighting is the expensive step, so it is skipped while a reply is still streaming.
+const REMARK_PLUGINS = [remarkGfm];
+const REHYPE_PLUGINS = [rehypeSanitize, rehypeHighlight];
+const STREAMING_REHYPE_PLUGINS = [rehypeSanitize];
+
 // Further memoize the Markdown component to avoid unnecessary re-renders
-const MarkdownContent = memo(({ content }: { content: string }) => {
+const MarkdownContent = memo(({ content, isStreaming = false }: { content: string; isStreaming?: boolean }) => {
   const renderTime = useRef(performance.now());
   const [copied, setCopied] = useState(false);
-  console.log('MarkdownContent rendered');
+  debugLog('MarkdownContent rendered');
   useEffect(() => {
     const duration = performance.now() - renderTime.current;
-    console.log(`[PERF] Markdown rendered in ${duration.toFixed(2)}ms`);
+    debugLog(`[PERF] Markdown rendered in ${duration.toFixed(2)}ms`);
     renderTime.current = performance.now();
   });
   
   return (
     <ReactMarkdown
-      remarkPlugins={[remarkGfm]}
-      rehypePlugins={[rehypeSanitize, rehypeHighlight]}
+      remarkPlugins={REMARK_PLUGINS}
+      rehypePlugins={isStreaming ? STREAMING_REHYPE_PLUGINS : REHYPE_PLUGINS}
       components={{
         pre: ({ children, ...props }) => {
           const codeRef = useRef<HTMLPreElement>(null);
@@ -450,12 +761,14 @@ function App() {
 
   useEffect(() => {
     const renderTime = performance.now() - renderStartTime.current;
-    console.log(`App render completed in ${renderTime.toFixed(2)}ms`);
+    debugLog(`App render completed in ${renderTime.toFixed(2)}ms`);
     renderStartTime.current = performance.now();
   });
 
   // State for tracking if there are unsaved changes
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Why the last Save Project failed, shown next to the button until a save succeeds
+  const [saveError, setSaveError] = useState<string | null>(null);
   
   // State for copy prompt feedback
   const [promptCopied, setPromptCopied] = useState(false);
@@ -477,46 +790,93 @@ function App() {
     return [];
   });
   const [input, setInput] = useState("");
+  // Files waiting to be sent with the next message
+  const [draftAttachments, setDraftAttachments] = useState<Attachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
-  // API key state
-  const [apiKey, setApiKey] = useState<string>(() => {
+  // Id of the assistant message currently receiving streamed tokens
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const streamFrameRef = useRef<number | null>(null);
+
+  // Controller for the in-flight request, used by the Stop button
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Provider connection settings (API keys and base URLs)
+  const [providerConfigs, setProviderConfigs] = useState<Record<ProviderId, ProviderConfig>>(() => {
+    const defaults = createDefaultProviderConfigs();
     if (isLocalStorageAvailable()) {
       try {
+        const savedConfigs = localStorage.getItem(PROVIDER_CONFIGS_STORAGE_KEY);
+        if (savedConfigs) {
+          return { ...defaults, ...JSON.parse(savedConfigs) };
+        }
+        // Fall back to the Gemini key saved by earlier versions
         const savedApiKey = localStorage.getItem(API_KEY_STORAGE_KEY);
         if (savedApiKey) {
-          return savedApiKey;
+          return { ...defaults, gemini: { ...defaults.gemini, apiKey: savedApiKey } };
         }
       } catch (error) {
-        console.error("Failed to load API key from localStorage:", error);
+        console.error("Failed to load provider settings from localStorage:", error);
       }
     }
-    return import.meta.env.VITE_GEMINI_API_KEY || "";
+    return {
+      ...defaults,
+      gemini: { ...defaults.gemini, apiKey: import.meta.env.VITE_GEMINI_API_KEY || "" }
+    };
   });
-  const [isConfigDialogOpen, setIsConfigDialogOpen] = useState(false);
-  const [tempApiKey, setTempApiKey] = useState("");
 
-  // Function to save API key to localStorage
-  const saveApiKey = (key: string) => {
-    debugLog('saveApiKey called');
-    setApiKey(key);
+  // User-added models (e.g. local Ollama models)
+  const [customModels, setCustomModels] = useState<Model[]>(() => {
     if (isLocalStorageAvailable()) {
       try {
-        localStorage.setItem(API_KEY_STORAGE_KEY, key);
-        debugLog('API key saved to localStorage');
+        const savedModels = localStorage.getItem(CUSTOM_MODELS_STORAGE_KEY);
+        if (savedModels) {
+          return JSON.parse(savedModels);
+        }
       } catch (error) {
-        console.error("Failed to save API key to localStorage:", error);
+        console.error("Failed to load custom models from localStorage:", error);
       }
     }
-  };
+    return [];
+  });
 
-  // Initialize temp API key when dialog opens
-  useEffect(() => {
-    if (isConfigDialogOpen) {
-      setTempApiKey(apiKey);
+  // Provider overrides for built-in models
+  const [modelProviders, setModelProviders] = useState<Record<string, ProviderId>>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedModelProviders = localStorage.getItem(MODEL_PROVIDERS_STORAGE_KEY);
+        if (savedModelProviders) {
+          return JSON.parse(savedModelProviders);
+        }
+      } catch (error) {
+        console.error("Failed to load model providers from localStorage:", error);
+      }
     }
-  }, [isConfigDialogOpen, apiKey]);
+    return {};
+  });
 
+  const [isConfigDialogOpen, setIsConfigDialogOpen] = useState(false);
+
+  // Function to save provider settings to localStorage
+  const saveProviderSettings = (values: ProviderSettingsValues) => {
+    debugLog('saveProviderSettings called');
+    setProviderConfigs(values.providerConfigs);
+    setCustomModels(values.customModels);
+    setModelProviders(values.modelProviders);
+    if (isLocalStorageAvailable()) {
+      try {
+        localStorage.setItem(PROVIDER_CONFIGS_STORAGE_KEY, JSON.stringify(values.providerConfigs));
+        localStorage.setItem(API_KEY_STORAGE_KEY, values.providerConfigs.gemini.apiKey);
+        localStorage.setItem(CUSTOM_MODELS_STORAGE_KEY, JSON.stringify(values.customModels));
+        localStorage.setItem(MODEL_PROVIDERS_STORAGE_KEY, JSON.stringify(values.modelProviders));
+        debugLog('Provider settings saved to localStorage');
+      } catch (error) {
+        console.error("Failed to save provider settings to localStorage:", error);
+      }
+    }
+  };
 
   const [selectedModel, setSelectedModel] = useState<string>(() => {
     if (isLocalStorageAvailable()) {
@@ -529,8 +889,224 @@ function App() {
         console.error("Failed to load selected model from localStorage:", error);
       }
     }
-    return "gemini-2.0-flash"; // Default model
+    return DEFAULT_MODEL;
+  });
+
+  // Models fetched from each configured provider (cached), merged with built-in and custom models
+  const {
+    models: fetchedModels,
+    isRefreshing: isModelListRefreshing,
+    errors: modelListErrors,
+    refresh: refreshModelList
+  } = useModelList(providerConfigs);
+  const allModels = useMemo(() => mergeModelLists(fetchedModels, customModels), [fetchedModels, customModels]);
+  const resolveProvider = useCallback(
+    (modelName: string) => resolveModelProvider(modelName, allModels, modelProviders),
+    [allModels, modelProviders]
+  );
+
+  // Provider serving the selected model
+  const selectedProviderId = resolveProvider(selectedModel);
+  const selectedProviderConfig = providerConfigs[selectedProviderId];
+  const isProviderConfigured = !PROVIDERS[selectedProviderId].requiresApiKey || !!selectedProviderConfig.apiKey;
+
+  // Add a manually entered model id (served by the current provider) and select it
+  const addCustomModel = useCallback((name: string) => {
+    debugLog('addCustomModel called', { name });
+    if (!allModels.some(m => m.name === name)) {
+      const updatedCustomModels = [...customModels, { name, displayName: name, provider: selectedProviderId }];
+      setCustomModels(updatedCustomModels);
+      if (isLocalStorageAvailable()) {
+        try {
+          localStorage.setItem(CUSTOM_MODELS_STORAGE_KEY, JSON.stringify(updatedCustomModels));
+        } catch (error) {
+          console.error("Failed to save custom models to localStorage:", error);
+        }
+      }
+    }
+    setSelectedModel(name);
+  }, [allModels, customModels, selectedProviderId]);
+
+  // Generation settings (temperature, limits, ...) - saved with the project
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSettings = localStorage.getItem(GENERATION_SETTINGS_STORAGE_KEY);
+        if (savedSettings) {
+          return { ...DEFAULT_GENERATION_SETTINGS, ...JSON.parse(savedSettings) };
+        }
+      } catch (error) {
+        console.error("Failed to load generation settings from localStorage:", error);
+      }
+    }
+    return DEFAULT_GENERATION_SETTINGS;
+  });
+  const [isGenerationSettingsOpen, setIsGenerationSettingsOpen] = useState(false);
+
+  // Validate against the selected model, since switching models can change the allowed ranges
+  const generationLimits = useMemo(
+    () => getGenerationLimits(selectedModel, allModels, selectedProviderId),
+    [selectedModel, allModels, selectedProviderId]
+  );
+  const generationSettingsErrors = useMemo(
+    () => validateGenerationSettings(generationSettings, generationLimits),
+    [generationSettings, generationLimits]
+  );
+  const hasGenerationSettingsErrors = Object.keys(generationSettingsErrors).length > 0;
+
+  // Output mode (text or schema-checked JSON) - saved with the project
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSettings = localStorage.getItem(OUTPUT_SETTINGS_STORAGE_KEY);
+        if (savedSettings) {
+          return { ...DEFAULT_OUTPUT_SETTINGS, ...JSON.parse(savedSettings) };
+        }
+      } catch (error) {
+        console.error("Failed to load output settings from localStorage:", error);
+      }
+    }
+    return DEFAULT_OUTPUT_SETTINGS;
+  });
+  const [isOutputSettingsOpen, setIsOutputSettingsOpen] = useState(false);
+  const parsedResponseSchema = useMemo(
+    () => parseJsonSchema(outputSettings.responseSchema),
+    [outputSettings.responseSchema]
+  );
+  const isJsonMode = outputSettings.mode === 'json';
+
+  // How examples are laid out in the request - saved with the project
+  const [exampleSerialization, setExampleSerialization] = useState<ExampleSerialization>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSerialization = localStorage.getItem(EXAMPLE_SERIALIZATION_STORAGE_KEY);
+        if (savedSerialization) {
+          return savedSerialization as ExampleSerialization;
+        }
+      } catch (error) {
+        console.error("Failed to load example serialization from localStorage:", error);
+      }
+    }
+    return DEFAULT_EXAMPLE_SERIALIZATION;
+  });
+
+  // The project's own example types, alongside the built-in ones - saved with the project
+  const [customExampleSchemas, setCustomExampleSchemas] = useState<ExampleSchema[]>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSchemas = localStorage.getItem(EXAMPLE_SCHEMAS_STORAGE_KEY);
+        if (savedSchemas) {
+          return JSON.parse(savedSchemas);
+        }
+      } catch (error) {
+        console.error("Failed to load example schemas from localStorage:", error);
+      }
+    }
+    return [];
+  });
+  const exampleSchemas = useMemo(() => getExampleSchemas(customExampleSchemas), [customExampleSchemas]);
+
+  // Safety thresholds per harm category - saved with the project
+  const [safetySettings, setSafetySettings] = useState<SafetySettings>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSettings = localStorage.getItem(SAFETY_SETTINGS_STORAGE_KEY);
+        if (savedSettings) {
+          return JSON.parse(savedSettings);
+        }
+      } catch (error) {
+        console.error("Failed to load safety settings from localStorage:", error);
+      }
+    }
+    return DEFAULT_SAFETY_SETTINGS;
+  });
+  const [isSafetySettingsOpen, setIsSafetySettingsOpen] = useState(false);
+  const customSafetySettingsCount = countCustomSafetySettings(safetySettings);
+
+  // How much conversation history is sent - saved with the project
+  const [historySettings, setHistorySettings] = useState<HistorySettings>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSettings = localStorage.getItem(HISTORY_SETTINGS_STORAGE_KEY);
+        if (savedSettings) {
+          return { ...DEFAULT_HISTORY_SETTINGS, ...JSON.parse(savedSettings) };
+        }
+      } catch (error) {
+        console.error("Failed to load history settings from localStorage:", error);
+      }
+    }
+    return DEFAULT_HISTORY_SETTINGS;
+  });
+  const [isHistorySettingsOpen, setIsHistorySettingsOpen] = useState(false);
+
+  // The model's summary of older messages, for the summarize strategy - saved with the project
+  const [historySummary, setHistorySummary] = useState<HistorySummary | null>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSummary = localStorage.getItem(HISTORY_SUMMARY_STORAGE_KEY);
+        if (savedSummary) {
+          return JSON.parse(savedSummary);
+        }
+      } catch (error) {
+        console.error("Failed to load history summary from localStorage:", error);
+      }
+    }
+    return null;
+  });
+
+  // Edited model prices for cost estimates - shared across projects, saved when edited
+  const [modelPriceOverrides, setModelPriceOverrides] = useState<Record<string, ModelPrice>>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedPrices = localStorage.getItem(MODEL_PRICES_STORAGE_KEY);
+        if (savedPrices) {
+          return JSON.parse(savedPrices);
+        }
+      } catch (error) {
+        console.error("Failed to load model prices from localStorage:", error);
+      }
+    }
+    return {};
   });
+  const [isUsageSummaryOpen, setIsUsageSummaryOpen] = useState(false);
+  const modelPrices = useMemo(
+    () => ({ ...DEFAULT_MODEL_PRICES, ...modelPriceOverrides }),
+    [modelPriceOverrides]
+  );
+
+  const saveModelPrices = (prices: Record<string, ModelPrice>) => {
+    debugLog('saveModelPrices called');
+    // Only keep the prices that differ from the built-in table
+    const overrides = Object.fromEntries(Object.entries(prices).filter(([model, price]) => {
+      const defaultPrice = DEFAULT_MODEL_PRICES[model];
+      return !defaultPrice || defaultPrice.input !== price.input || defaultPrice.output !== price.output;
+    }));
+    setModelPriceOverrides(overrides);
+    if (isLocalStorageAvailable()) {
+      try {
+        localStorage.setItem(MODEL_PRICES_STORAGE_KEY, JSON.stringify(overrides));
+      } catch (error) {
+        console.error("Failed to save model prices to localStorage:", error);
+      }
+    }
+  };
+
+  // Usage totals per model, from the replies in the conversation
+  const modelUsage = useMemo(() => {
+    const byModel = new Map<string, ModelUsage>();
+    messages.forEach(message => {
+      if (!message.model || !message.usage) return;
+      const row = byModel.get(message.model);
+      byModel.set(message.model, row
+        ? { ...row, requests: row.requests + 1, usage: addUsage(row.usage, message.usage) }
+        : { model: message.model, requests: 1, usage: message.usage });
+    });
+    return Array.from(byModel.values());
+  }, [messages]);
+  const totalCost = modelUsage.reduce((sum, row) => {
+    const price = modelPrices[row.model];
+    return price ? sum + estimateCost(row.usage, price) : sum;
+  }, 0);
 
   // Sidebar state - now with individual section toggles
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
@@ -552,9 +1128,9 @@ function App() {
     }
   };
 
-  // Scroll to bottom whenever messages change
+  // Scroll to bottom whenever messages change (instantly while streaming to keep up)
   useEffect(() => {
-    scrollToBottom();
+    scrollToBottom(!streamingMessageId);
   }, [messages]);
 
   // Examples for few-shot learning - initialize with data from localStorage if it exists
@@ -563,10 +1139,10 @@ function App() {
       try {
         const savedExamples = localStorage.getItem(EXAMPLES_STORAGE_KEY);
         if (savedExamples) {
-          console.log('Initializing examples from localStorage');
+          debugLog('Initializing examples from localStorage');
           const parsedExamples = JSON.parse(savedExamples);
-          // Ensure all examples have IDs
-          return parsedExamples.map((ex: any) => ({
+          // Ensure all examples have IDs and the schema-based shape
+          return parsedExamples.map((ex: any) => normalizeExample({
             ...ex,
             id: ex.id || `example-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
           }));
@@ -578,13 +1154,54 @@ function App() {
     return [];
   });
 
+  // Examples that are sent - saved with the project. Projects saved before the selection existed send all examples.
+  const [activeExampleIds, setActiveExampleIds] = useState<string[]>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedIds = localStorage.getItem(ACTIVE_EXAMPLE_IDS_STORAGE_KEY);
+        if (savedIds) {
+          return JSON.parse(savedIds);
+        }
+      } catch (error) {
+        console.error("Failed to load active examples from localStorage:", error);
+      }
+    }
+    return examples.map(ex => ex.id);
+  });
+  const activeExamples = useMemo(
+    () => examples.filter(ex => activeExampleIds.includes(ex.id)),
+    [examples, activeExampleIds]
+  );
+
+  // Whether all active examples are sent, or only the top k by similarity - saved with the project
+  const [exampleSelection, setExampleSelection] = useState<ExampleSelectionSettings>(() => {
+    if (isLocalStorageAvailable()) {
+      try {
+        const savedSelection = localStorage.getItem(EXAMPLE_SELECTION_STORAGE_KEY);
+        if (savedSelection) {
+          return { ...DEFAULT_EXAMPLE_SELECTION, ...JSON.parse(savedSelection) };
+        }
+      } catch (error) {
+        console.error("Failed to load example selection from localStorage:", error);
+      }
+    }
+    return DEFAULT_EXAMPLE_SELECTION;
+  });
+
+  // Retrieval documents and BM25 index over the active examples, rebuilt only when they change
+  const exampleDocuments = useMemo(
+    () => activeExamples.map(ex => ({ id: ex.id, text: exampleRetrievalText(ex, exampleSchemas) })),
+    [activeExamples, exampleSchemas]
+  );
+  const exampleBm25Index = useMemo(() => buildBm25Index(exampleDocuments), [exampleDocuments]);
+
   // Prompt template for few-shot learning - initialize with data from localStorage if it exists
   const [promptTemplate, setPromptTemplate] = useState<PromptTemplateType>(() => {
     if (isLocalStorageAvailable()) {
       try {
         const savedTemplate = localStorage.getItem(PROMPT_TEMPLATE_STORAGE_KEY);
         if (savedTemplate) {
-          console.log('Initializing prompt template from localStorage');
+          debugLog('Initializing prompt template from localStorage');
           return JSON.parse(savedTemplate);
         }
       } catch (error) {
@@ -623,6 +1240,38 @@ function App() {
     setHasUnsavedChanges(true);
   }, [selectedModel]);
 
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [generationSettings]);
+
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [outputSettings]);
+
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [safetySettings]);
+
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [exampleSerialization]);
+
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [customExampleSchemas]);
+
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [activeExampleIds]);
+
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [exampleSelection]);
+
+  useEffect(() => {
+    setHasUnsavedChanges(true);
+  }, [historySettings]);
+
   // Function to save all data to localStorage
   const saveProjectToLocalStorage = () => {
     debugLog('saveProjectToLocalStorage called');
@@ -639,27 +1288,150 @@ function App() {
         
         // Save selected model
         localStorage.setItem(SELECTED_MODEL_STORAGE_KEY, selectedModel);
+
+        // Save generation settings
+        localStorage.setItem(GENERATION_SETTINGS_STORAGE_KEY, JSON.stringify(generationSettings));
+
+        // Save output mode and response schema
+        localStorage.setItem(OUTPUT_SETTINGS_STORAGE_KEY, JSON.stringify(outputSettings));
+
+        // Save safety thresholds
+        localStorage.setItem(SAFETY_SETTINGS_STORAGE_KEY, JSON.stringify(safetySettings));
+
+        // Save example serialization strategy
+        localStorage.setItem(EXAMPLE_SERIALIZATION_STORAGE_KEY, exampleSerialization);
+
+        // Save custom example types
+        localStorage.setItem(EXAMPLE_SCHEMAS_STORAGE_KEY, JSON.stringify(customExampleSchemas));
+
+        // Save which examples are sent
+        localStorage.setItem(ACTIVE_EXAMPLE_IDS_STORAGE_KEY, JSON.stringify(activeExampleIds));
+
+        // Save example selection (all or retrieved)
+        localStorage.setItem(EXAMPLE_SELECTION_STORAGE_KEY, JSON.stringify(exampleSelection));
+
+        // Save history strategy and the summary of older messages
+        localStorage.setItem(HISTORY_SETTINGS_STORAGE_KEY, JSON.stringify(historySettings));
+        if (historySummary) {
+          localStorage.setItem(HISTORY_SUMMARY_STORAGE_KEY, JSON.stringify(historySummary));
+        } else {
+          localStorage.removeItem(HISTORY_SUMMARY_STORAGE_KEY);
+        }
         
         // Reset unsaved changes flag
         setHasUnsavedChanges(false);
+        setSaveError(null);
         
         debugLog('Project saved to localStorage successfully');
       } catch (error) {
         console.error("Failed to save project to localStorage:", error);
+        setSaveError(error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+          ? "Not saved - the project is larger than browser storage allows. Remove some attachments or messages and try again."
+          : `Not saved - ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   };
 
   // Add tracking for input changes
   useEffect(() => {
-    console.log(`Input changed to length: ${input.length}`);
+    debugLog(`Input changed to length: ${input.length}`);
   }, [input]);
 
+  // System instruction and the remaining template blocks, for display
+  const systemInstruction = useMemo(() => formatSystemInstruction(promptTemplate), [promptTemplate]);
+  const templateInputs = useMemo(
+    () => promptTemplate?.inputs?.filter(input => input.type !== 'system') || [],
+    [promptTemplate]
+  );
+
+  // Variables collected through a form when the template is run
+  const templateVariables = useMemo(() => getTemplateVariables(promptTemplate), [promptTemplate]);
+  const templateVariableValues = useMemo(() => getTemplateVariableValues(promptTemplate), [promptTemplate]);
+  const templateErrorCount = useMemo(() => Object.keys(getTemplateErrors(promptTemplate)).length, [promptTemplate]);
+  const [isTemplateVariablesFormOpen, setIsTemplateVariablesFormOpen] = useState(false);
+
+  // Examples the token meter and payload preview assume. With retrieval on, that's the BM25 pick
+  // for the draft (or the last user message) - embeddings are only queried when sending.
+  const previewQuery = input.trim() || [...messages].reverse().find(msg => msg.role === 'user')?.content || "";
+  const previewExampleKey = useMemo(
+    () => exampleSelection.mode === 'retrieval'
+      ? rankBm25(exampleBm25Index, previewQuery, exampleSelection.topK).map(doc => doc.id).join('\n')
+      : "",
+    [exampleSelection.mode, exampleSelection.topK, exampleBm25Index, previewQuery]
+  );
+  const previewExamples = useMemo(() => {
+    if (exampleSelection.mode !== 'retrieval') return activeExamples;
+    const ids = new Set(previewExampleKey.split('\n'));
+    return activeExamples.filter(ex => ids.has(ex.id));
+  }, [exampleSelection.mode, previewExampleKey, activeExamples]);
+
+  // Payload sections for the token meter - memoized separately so typing only changes the draft
+  const exampleContents = useMemo(
+    () => generateExampleContents(previewExamples, exampleSerialization, exampleSchemas),
+    [previewExamples, exampleSerialization, exampleSchemas]
+  );
+  const templateContents = useMemo((): ApiContent[] => [
+    ...systemInstructionContents(systemInstruction),
+    ...generateTemplateContents(promptTemplate)
+  ], [systemInstruction, promptTemplate]);
+  // Conversation turns sent under the history strategy, with a description for the payload preview.
+  // `fixedContents` (system instruction, examples and template) count against the token budget.
+  const buildHistoryContents = useCallback((
+    conversationMessages: Message[],
+    fixedContents: ApiContent[],
+    summary: HistorySummary | null = historySummary
+  ): { contents: ApiContent[]; info: HistoryInfo } => {
+    let start = 0;
+    let summaryContents: ApiContent[] = [];
+    if (historySettings.strategy === 'sliding-window') {
+      start = slidingWindowStart(conversationMessages, historySettings.maxTurns);
+    } else if (historySettings.strategy === 'token-budget') {
+      const messageTokens = conversationMessages.map(msg => estimateContentTokens(generateMessageContents([msg])));
+      start = tokenBudgetStart(conversationMessages, messageTokens, estimateContentTokens(fixedContents), historySettings.tokenBudget);
+    } else if (historySettings.strategy === 'summarize' && summary) {
+      // The summary stands in for the messages it covers; older messages after it are sent as they are
+      const coveredIndex = conversationMessages.findIndex(msg => msg.id === summary.throughMessageId);
+      if (coveredIndex >= 0 && coveredIndex < summarizeStart(conversationMessages, historySettings.keepRecentTurns)) {
+        start = coveredIndex + 1;
+        summaryContents = [{ role: 'user', parts: [{ text: formatSummaryTurn(summary) }] }];
+      }
+    }
+    return {
+      contents: [...summaryContents, ...generateMessageContents(conversationMessages.slice(start))],
+      info: {
+        strategy: historySettings.strategy,
+        sentMessages: conversationMessages.length - start,
+        totalMessages: conversationMessages.length,
+        summarizedMessages: summaryContents.length > 0 ? start : 0
+      }
+    };
+  }, [historySettings, historySummary]);
+
+  const historyContents = useMemo(
+    () => buildHistoryContents(messages, [...exampleContents, ...templateContents]).contents,
+    [buildHistoryContents, messages, exampleContents, templateContents]
+  );
+  const tokenSections = useMemo(() => ({
+    examples: exampleContents,
+    template: templateContents,
+    history: historyContents,
+    draft: input.trim() || draftAttachments.length > 0
+      ? [{ role: 'user' as const, parts: generateTurnParts(input.trim() ? input : "", draftAttachments) }]
+      : []
+  }), [exampleContents, templateContents, historyContents, input, draftAttachments]);
+
+  const tokenCounts = useTokenCount(tokenSections, PROVIDERS[selectedProviderId], selectedModel, selectedProviderConfig);
+  const inputTokenLimit = getInputTokenLimit(selectedModel, allModels, selectedProviderId);
+
   // Generate API payload only when actually needed (not on every keystroke)
+  // `overrides` replace the current template (a run with freshly filled-in variables)
+  // or the examples (the ones retrieved for this request)
   const generateApiPayload = useCallback((
     currentMessages: Message[],
-    additionalMessage: Message | null = null
-  ) => {
+    additionalMessage: Message | null = null,
+    overrides: { template?: PromptTemplateType; examples?: Example[]; historySummary?: HistorySummary | null } = {}
+  ): ApiPayload => {
+    const { template = promptTemplate, examples: requestExamples = previewExamples } = overrides;
     const start = performance.now();
     debugLog('generateApiPayload called', {
       currentMessagesCount: currentMessages.length,
@@ -667,50 +1439,437 @@ function App() {
     });
 
     // Get formatted examples and template content
-    const examplesAndTemplateContents = generateApiContents(examples, promptTemplate);
+    const examplesAndTemplateContents = generateApiContents(requestExamples, template, exampleSerialization, exampleSchemas);
+    const systemInstruction = formatSystemInstruction(template);
     
     // Combine with conversation messages
     const contents = [...examplesAndTemplateContents];
 
-    // Add conversation messages
-    const conversationMessages = additionalMessage
-      ? [...currentMessages, additionalMessage]
-      : currentMessages;
+    // Add conversation messages, trimmed or summarized by the history strategy
+    const conversationMessages = additionalMessage
+      ? [...currentMessages, additionalMessage]
+      : currentMessages;
+
+    const history = buildHistoryContents(
+      conversationMessages,
+      [...systemInstructionContents(systemInstruction), ...examplesAndTemplateContents],
+      overrides.historySummary
+    );
+    contents.push(...history.contents);
+
+    // Log simplified payload info (not the huge payload itself)
+    debugLog('Payload info:', {
+      examplesCount: requestExamples.length,
+      hasPromptTemplate: !!template?.inputs?.length,
+      messagesCount: conversationMessages.length,
+      sentMessagesCount: history.info.sentMessages,
+      totalContentItems: contents.length
+    });
+
+    logPerformance('generateApiPayload', start);
+    return {
+      contents,
+      systemInstruction: systemInstruction || undefined
+    };
+  }, [previewExamples, promptTemplate, exampleSerialization, exampleSchemas, buildHistoryContents]);
+
+  // The full request for a payload - shared by the send path, the payload preview and the prompt exports.
+  // Another model than the selected one (an export for another provider) gets the settings that fit its limits.
+  const buildGenerateRequest = useCallback((payload: ApiPayload, model: string = selectedModel): GenerateRequest => {
+    const limits = model === selectedModel ? generationLimits : getGenerationLimits(model, allModels, resolveProvider(model));
+    const settings = model === selectedModel ? generationSettings : fitGenerationSettings(generationSettings, limits);
+    return {
+      ...payload,
+      model,
+      generationSettings: settings,
+      jsonOutput: isJsonMode ? { schema: parsedResponseSchema.schema } : undefined,
+      thinking: allModels.find(m => m.name === model)?.supportsThinking
+        ? { budget: settings.thinkingBudget }
+        : undefined,
+      safetySettings
+    };
+  }, [selectedModel, generationLimits, generationSettings, allModels, resolveProvider, isJsonMode, parsedResponseSchema.schema, safetySettings]);
+
+  // What the next send would contain (conversation plus the current draft), built only while the preview is open
+  const [isPayloadPreviewOpen, setIsPayloadPreviewOpen] = useState(false);
+  const payloadPreview = useMemo(() => {
+    if (!isPayloadPreviewOpen) return null;
+    const draftMessage: Message | null = input.trim() || draftAttachments.length > 0
+      ? { role: 'user', content: input, attachments: draftAttachments }
+      : null;
+    const request = buildGenerateRequest(generateApiPayload(messages, draftMessage));
+    const conversation = draftMessage ? [...messages, draftMessage] : messages;
+    return {
+      request,
+      providerRequest: PROVIDERS[selectedProviderId].buildRequest(request, selectedProviderConfig),
+      history: buildHistoryContents(conversation, [...exampleContents, ...templateContents]).info
+    };
+  }, [isPayloadPreviewOpen, input, draftAttachments, messages, buildGenerateRequest, generateApiPayload, selectedProviderId, selectedProviderConfig, buildHistoryContents, exampleContents, templateContents]);
+
+  // Cancel a pending streamed-text flush
+  const cancelStreamFrame = () => {
+    if (streamFrameRef.current !== null) {
+      cancelAnimationFrame(streamFrameRef.current);
+      streamFrameRef.current = null;
+    }
+  };
+
+  // Open the relevant dialog when the request can't be sent yet
+  const ensureSettingsValid = (source: string): boolean => {
+    if (!isProviderConfigured) {
+      debugLog(`${source} - no API key, opening config dialog`);
+      setIsConfigDialogOpen(true);
+      return false;
+    }
+    if (hasGenerationSettingsErrors) {
+      debugLog(`${source} - invalid generation settings, opening settings dialog`, generationSettingsErrors);
+      setIsGenerationSettingsOpen(true);
+      return false;
+    }
+    if (isJsonMode && parsedResponseSchema.error) {
+      debugLog(`${source} - invalid response schema, opening output dialog`);
+      setIsOutputSettingsOpen(true);
+      return false;
+    }
+    return true;
+  };
+
+  // `conversation` is the messages to be sent when they aren't the current chat (a rerun or continuation
+  // from an earlier message); the context window check then estimates the payload built from them.
+  const ensureReadyToSend = (source: string, conversation?: Message[]): boolean => {
+    if (!ensureSettingsValid(source)) {
+      return false;
+    }
+
+    // Warn before sending a payload that won't fit the context window (the draft only counts when sent)
+    const payload = conversation ? generateApiPayload(conversation) : null;
+    const payloadTokens = payload
+      ? estimateContentTokens([...systemInstructionContents(payload.systemInstruction ?? ""), ...payload.contents])
+      : tokenCounts.total - (source === 'handleSendMessage' ? 0 : tokenCounts.sections.draft);
+    if (payloadTokens > inputTokenLimit) {
+      debugLog(`${source} - payload exceeds context window`, { payloadTokens, inputTokenLimit });
+      const confirmed = window.confirm(
+        `This request is about ${formatTokenCount(payloadTokens)} tokens, but ${selectedModel} accepts ${formatTokenCount(inputTokenLimit)}. Send anyway?`
+      );
+      if (!confirmed) return false;
+    }
+    return true;
+  };
+
+  // Send one dataset row of a batch run: its columns fill template variables and the user message.
+  // Rows are independent single-turn requests - the conversation isn't sent.
+  const runBatchRow: BatchRowRunner = async (row, mapping, signal) => {
+    const { variables, message } = applyColumnMapping(row, mapping);
+    const template = applyTemplateVariables(promptTemplate, variables);
+    const [invalidField] = Object.entries(getTemplateErrors(template));
+    if (invalidField) {
+      throw new Error(`{{${invalidField[0]}}}: ${invalidField[1]}`);
+    }
+
+    const userMessage: Message = {
+      role: 'user',
+      content: message?.trim() ? message : RUN_INSTRUCTION,
+      id: `batch-${Date.now()}`
+    };
+    const query = message?.trim() ? message : formatPromptTemplate(template);
+    const { examples: requestExamples } = await selectRequestExamples(query, undefined, signal);
+    const payload = generateApiPayload([userMessage], null, { template, examples: requestExamples, historySummary: null });
+    const result = await generate(PROVIDERS[selectedProviderId], buildGenerateRequest(payload), selectedProviderConfig, { signal });
+    return { text: result.text, usage: result.usage };
+  };
+
+  const batch = useBatchRun(runBatchRow);
+  const [isBatchRunnerOpen, setIsBatchRunnerOpen] = useState(false);
+
+  const handleRunBatch = (indices: number[], concurrency: number) => {
+    debugLog('handleRunBatch called', { rows: indices.length, concurrency });
+    if (!ensureSettingsValid('handleRunBatch')) {
+      return;
+    }
+    batch.run(indices, concurrency);
+  };
+
+  // Abort the in-flight generation, whichever send path started it
+  const stopGeneration = useCallback(() => {
+    debugLog('stopGeneration called');
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Active examples for ranked ids (kept in library order), with the record shown on the reply
+  const toRetrievedExamples = (ranked: RankedDocument[]): { examples: Example[]; retrieval: ExampleRetrieval } => {
+    const scores = new Map(ranked.map(doc => [doc.id, doc.score]));
+    const picked = activeExamples.filter(ex => scores.has(ex.id));
+    return {
+      examples: picked,
+      retrieval: {
+        backend: exampleSelection.backend,
+        examples: picked.map(ex => {
+          const [firstField] = getExampleFields(ex, findExampleSchema(exampleSchemas, ex.schemaId));
+          return {
+            id: ex.id,
+            label: `Example ${examples.indexOf(ex) + 1}${firstField?.value ? `: ${firstField.value.substring(0, 40)}` : ''}`,
+            score: scores.get(ex.id) || 0
+          };
+        })
+      }
+    };
+  };
+
+  // The examples to send with a request - all active ones, or the top k most similar to the query
+  const selectRequestExamples = async (
+    query: string,
+    continuedMessage: Message | undefined,
+    signal: AbortSignal
+  ): Promise<{ examples: Example[]; retrieval?: ExampleRetrieval }> => {
+    if (exampleSelection.mode !== 'retrieval' || activeExamples.length === 0) {
+      return { examples: activeExamples };
+    }
+
+    // A continuation keeps the examples of the reply it continues
+    if (continuedMessage?.retrieval) {
+      const ids = new Set(continuedMessage.retrieval.examples.map(example => example.id));
+      return { examples: activeExamples.filter(ex => ids.has(ex.id)), retrieval: continuedMessage.retrieval };
+    }
+
+    if (exampleSelection.backend === 'embeddings') {
+      const provider = PROVIDERS[selectedProviderId];
+      const model = exampleSelection.embeddingModel || provider.defaultEmbeddingModel || "";
+      const ranked = await rankByEmbeddings(
+        provider, model, selectedProviderConfig, exampleDocuments, query, exampleSelection.topK, signal
+      );
+      return toRetrievedExamples(ranked);
+    }
+    return toRetrievedExamples(rankBm25(exampleBm25Index, query, exampleSelection.topK));
+  };
+
+  // Under the summarize strategy, bring the summary up to the messages that are no longer sent
+  // as they are. Extends the previous summary when there is one; reused while nothing new is older.
+  const refreshHistorySummary = async (conversation: Message[], signal: AbortSignal): Promise<HistorySummary | null> => {
+    const end = summarizeStart(conversation, historySettings.keepRecentTurns);
+    // Messages saved without an id (older projects) can't be pointed at - send them as they are
+    const throughMessageId = end > 0 ? conversation[end - 1].id : undefined;
+    if (!throughMessageId) return historySummary;
+
+    const coveredIndex = historySummary
+      ? conversation.findIndex(msg => msg.id === historySummary.throughMessageId)
+      : -1;
+    if (coveredIndex === end - 1) return historySummary;
+
+    // Extend the summary only when the messages it covers are still in the conversation
+    const extending = historySummary && coveredIndex >= 0 && coveredIndex < end;
+    const toSummarize = conversation.slice(extending ? coveredIndex + 1 : 0, end);
+    const prompt = buildSummaryPrompt(toTranscript(toSummarize), extending ? historySummary.text : undefined);
+
+    // The project's settings (safety, thinking, limits) apply, but the summary is always plain text
+    const result = await generate(PROVIDERS[selectedProviderId], {
+      ...buildGenerateRequest({ contents: [{ role: 'user', parts: [{ text: prompt }] }] }),
+      jsonOutput: undefined
+    }, selectedProviderConfig, { signal });
+
+    const summary = {
+      throughMessageId,
+      messageCount: end,
+      text: result.text.trim()
+    };
+    setHistorySummary(summary);
+    return summary;
+  };
+
+  // Shared send path - sends the conversation through the selected model's provider
+  // and appends the assistant response (or the error) to the chat. When continuing
+  // a truncated reply, the new text is appended to that message instead.
+  // Options: the reply being continued, a prompt template overriding the current one (for a run
+  // whose variables were just filled in) and the text examples are retrieved for, when it isn't
+  // the last user message
+  const requestCompletion = async (
+    conversation: Message[],
+    source: string,
+    { continuedMessage, template, retrievalQuery }: {
+      continuedMessage?: Message;
+      template?: PromptTemplateType;
+      retrievalQuery?: string;
+    } = {}
+  ) => {
+    const start = performance.now();
+    const provider = PROVIDERS[selectedProviderId];
+    const assistantId = continuedMessage?.id || `assistant-${Date.now()}`;
+    const previousText = continuedMessage?.content || "";
+    const previousReasoning = continuedMessage?.reasoning || "";
+    let streamed: GenerateResult = { text: "", reasoning: "" };
+    let hasStreamStarted = false;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Streamed text joined onto the reply being continued, if any
+    const streamedMessage = () => ({
+      content: previousText + streamed.text,
+      reasoning: (previousReasoning + streamed.reasoning) || undefined
+    });
+
+    // Apply changes to the streaming assistant message
+    const updateAssistantMessage = (changes: Partial<Message>) => {
+      setMessages(prev => prev.map(msg => msg.id === assistantId ? { ...msg, ...changes } : msg));
+    };
+
+    setIsLoading(true);
+
+    try {
+      debugLog(`${source} - preparing API call`);
+      // Pick the examples, then generate the API payload
+      const query = retrievalQuery ?? ([...conversation].reverse().find(msg => msg.role === 'user')?.content || "");
+      const { examples: requestExamples, retrieval } = await selectRequestExamples(query, continuedMessage, abortController.signal);
+      if (retrieval) {
+        debugLog(`${source} - examples retrieved`, { backend: retrieval.backend, ids: retrieval.examples.map(example => example.id) });
+      }
+      // A failed summary doesn't fail the send - the history goes out in full, with a notice on the reply
+      let summary: HistorySummary | null | undefined;
+      let summaryError: string | undefined;
+      if (historySettings.strategy === 'summarize') {
+        try {
+          summary = await refreshHistorySummary(conversation, abortController.signal);
+        } catch (error) {
+          if (abortController.signal.aborted) throw error;
+          summaryError = error instanceof Error ? error.message : String(error);
+          summary = null;
+          debugLog(`${source} - summarizing history failed, sending it in full`, { error: summaryError });
+        }
+      }
+      const payload = generateApiPayload(conversation, null, { template, examples: requestExamples, historySummary: summary });
+
+      debugLog(`${source} - sending API request`, { model: selectedModel, provider: provider.id });
+
+      // Render tokens as they arrive, batching updates to one per animation frame
+      const flushStreamedText = () => {
+        streamFrameRef.current = null;
+        updateAssistantMessage(streamedMessage());
+      };
+
+      const result = await generate(provider, buildGenerateRequest(payload), selectedProviderConfig, {
+        signal: abortController.signal,
+        onUpdate: (update) => {
+          streamed = update;
+          if (!hasStreamStarted) {
+            hasStreamStarted = true;
+            setStreamingMessageId(assistantId);
+            if (continuedMessage) {
+              updateAssistantMessage({ ...streamedMessage(), finish: undefined, stopped: undefined });
+            } else {
+              setMessages(prev => [...prev, { role: 'assistant', id: assistantId, retrieval, summaryError, ...streamedMessage() }]);
+            }
+            return;
+          }
+          if (streamFrameRef.current === null) {
+            streamFrameRef.current = requestAnimationFrame(flushStreamedText);
+          }
+        }
+      });
+
+      debugLog(`${source} - API response received`, {
+        model: selectedModel,
+        messageCount: payload.contents.length,
+        hasContent: !!result.text,
+        reasoningLength: result.reasoning.length,
+        finishReason: result.finish?.providerReason
+      });
+
+      // Keep the finish details only when the reply didn't end normally
+      const finish = result.finish?.reason !== 'stop' ? result.finish : undefined;
+
+      // An empty reply is explained by the finish notice when there is one
+      const aiResponse = previousText + result.text
+        || (finish ? "" : "Sorry, I couldn't generate a response.");
+
+      debugLog(`${source} - adding assistant response`, {
+        messageId: assistantId,
+        contentLength: aiResponse.length
+      });
+
+      // In JSON mode, check the reply against the response schema
+      const jsonValidation = isJsonMode && aiResponse
+        ? validateJsonReply(aiResponse, parsedResponseSchema.schema)
+        : undefined;
+
+      // Write the final text (the last frame may not have been flushed yet)
+      cancelStreamFrame();
+      // A continuation adds its usage and latency to the original reply's
+      const latencyMs = Math.round(performance.now() - start);
+      const usage = result.usage && continuedMessage?.usage
+        ? addUsage(continuedMessage.usage, result.usage)
+        : result.usage;
+      const finalMessage = {
+        content: aiResponse,
+        reasoning: (previousReasoning + result.reasoning) || undefined,
+        jsonValidation,
+        finish,
+        stopped: undefined,
+        model: selectedModel,
+        usage,
+        latencyMs: latencyMs + (continuedMessage?.latencyMs || 0),
+        retrieval,
+        summaryError
+      };
+      if (hasStreamStarted || continuedMessage) {
+        updateAssistantMessage(finalMessage);
+      } else {
+        setMessages(prev => [...prev, { role: 'assistant', id: assistantId, ...finalMessage }]);
+      }
+    } catch (error) {
+      cancelStreamFrame();
+      const partialMessage = streamedMessage();
+
+      // Stopped by the user - keep the partial text and mark it as stopped
+      if (abortController.signal.aborted) {
+        debugLog(`${source} - generation stopped`, { contentLength: streamed.text.length });
+        if (hasStreamStarted) {
+          updateAssistantMessage({ ...partialMessage, stopped: true });
+        }
+        return;
+      }
+
+      console.error(`Error calling ${provider.displayName} API:`, error);
+      // Extract the error message - show the specific error instead of a generic message
+      const errorMessage = error instanceof Error
+        ? `Error: ${error.message}`
+        : "Unknown error occurred";
 
-    conversationMessages.forEach(msg => {
-      contents.push({
-        role: msg.role === 'assistant' ? 'model' : 'user' as const,
-        parts: [{ text: msg.content }]
-      });
-    });
+      debugLog(`${source} - error occurred`, { errorMessage });
 
-    // Log simplified payload info (not the huge payload itself)
-    debugLog('Payload info:', {
-      examplesCount: examples.length,
-      hasPromptTemplate: !!promptTemplate?.inputs?.length,
-      messagesCount: conversationMessages.length,
-      totalContentItems: contents.length
-    });
+      // Keep any text that streamed in before the failure
+      if (hasStreamStarted) {
+        updateAssistantMessage(partialMessage);
+      }
 
-    logPerformance('generateApiPayload', start);
-    return contents;
-  }, [examples, promptTemplate]);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `Failed to get response from ${provider.displayName} API. ${errorMessage}`,
+        id: `error-${Date.now()}`
+      }]);
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
+      setIsLoading(false);
+      logPerformance(source, start);
+    }
+  };
 
   // Optimized handleSendMessage function
   const handleSendMessage = async () => {
-    const start = performance.now();
     debugLog('handleSendMessage called');
 
-    // Require input text
-    if (!input.trim()) {
+    // Require input text or an attachment
+    if (!input.trim() && draftAttachments.length === 0) {
       debugLog('handleSendMessage - empty input, returning');
       return;
     }
 
-    // Check if API key is set
-    if (!apiKey) {
-      debugLog('handleSendMessage - no API key, opening config dialog');
-      setIsConfigDialogOpen(true);
+    // Only one generation at a time - Stop has to be used first
+    if (isLoading) {
+      debugLog('handleSendMessage - generation in progress, returning');
+      return;
+    }
+
+    // Check the provider and generation settings before sending
+    if (!ensureReadyToSend('handleSendMessage')) {
       return;
     }
 
@@ -718,7 +1877,8 @@ function App() {
     const userMessage: Message = {
       role: 'user',
       content: input,
-      id: `user-${Date.now()}`
+      id: `user-${Date.now()}`,
+      attachments: draftAttachments.length > 0 ? draftAttachments : undefined
     };
 
     debugLog('handleSendMessage - adding user message', { messageId: userMessage.id });
@@ -728,91 +1888,19 @@ function App() {
 
     // Reset input
     setInput("");
-
-    setIsLoading(true);
+    setDraftAttachments([]);
+    setAttachmentErrors([]);
 
     // Scroll to bottom immediately when sending a message
     scrollToBottom(false);
 
-    try {
-      debugLog('handleSendMessage - preparing API call');
-      // Generate API payload only when needed
-      const contents = generateApiPayload(messages, userMessage);
-
-      debugLog('handleSendMessage - sending API request', { model: selectedModel });
-
-      // Call Gemini API
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents,
-            generationConfig: {
-              responseMimeType: "text/plain",
-            }
-          })
-        }
-      );
-
-      debugLog('handleSendMessage - API request sent', {
-        model: selectedModel,
-        messageCount: contents.length,
-        requestSize: JSON.stringify({ contents }).length,
-        timestamp: new Date().toISOString()
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        debugLog('handleSendMessage - API error', { status: response.status, errorText });
-        throw new Error(`API error: ${response.status} - ${errorText}`);
-      }
-
-      const result = await response.json();
-      debugLog('handleSendMessage - API response received', {
-        status: response.status,
-        hasContent: !!result.candidates?.[0]?.content?.parts?.[0]?.text
-      });
-
-      const aiResponse = result.candidates?.[0]?.content?.parts?.[0]?.text || "Sorry, I couldn't generate a response.";
-
-      // Add AI response to chat
-      const assistantMessage = {
-        role: 'assistant' as const,
-        content: aiResponse,
-        id: `assistant-${Date.now()}`
-      };
-
-      debugLog('handleSendMessage - adding assistant response', {
-        messageId: assistantMessage.id,
-        contentLength: aiResponse.length
-      });
-
-      setMessages(prev => [...prev, assistantMessage]);
-    } catch (error) {
-      console.error("Error calling Gemini API:", error);
-      // Extract the error message - show the specific error instead of a generic message
-      const errorMessage = error instanceof Error
-        ? `Error: ${error.message}`
-        : "Unknown error occurred";
-
-      debugLog('handleSendMessage - error occurred', { errorMessage });
-
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: `Failed to get response from Gemini API. ${errorMessage}`,
-        id: `error-${Date.now()}`
-      }]);
-    } finally {
-      setIsLoading(false);
-      logPerformance('handleSendMessage', start);
-    }
+    await requestCompletion([...messages, userMessage], 'handleSendMessage');
   };
 
   const clearChat = () => {
     debugLog('clearChat called');
     setMessages([]);
+    setHistorySummary(null);
     setHasUnsavedChanges(true);
   };
 
@@ -853,18 +1941,16 @@ function App() {
 
   // Run conversation from a specific message
   const runFromMessage = async (index: number) => {
-    const start = performance.now();
     debugLog('runFromMessage called', { index });
 
-    // Check if API key is set
-    if (!apiKey) {
-      debugLog('runFromMessage - no API key, opening config dialog');
-      setIsConfigDialogOpen(true);
+    // Keep messages up to and including the selected index
+    const truncatedMessages = messages.slice(0, index + 1);
+
+    // Check the provider and generation settings before sending
+    if (!ensureReadyToSend('runFromMessage', truncatedMessages)) {
       return;
     }
 
-    // Keep messages up to and including the selected index
-    const truncatedMessages = messages.slice(0, index + 1);
     debugLog('runFromMessage - truncating messages', {
       originalCount: messages.length,
       newCount: truncatedMessages.length
@@ -875,188 +1961,92 @@ function App() {
     const selectedMessage = messages[index];
 
     if (selectedMessage.role === 'user') {
-      setIsLoading(true);
-
-      try {
-        debugLog('runFromMessage - preparing API call');
-        // Generate API payload only when needed (using truncated messages)
-        const contents = generateApiPayload(truncatedMessages);
-
-        debugLog('runFromMessage - sending API request', { model: selectedModel });
-
-        // Call Gemini API
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${apiKey}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              contents,
-              generationConfig: {
-                responseMimeType: "text/plain",
-              }
-            })
-          }
-        );
-
-        debugLog('runFromMessage - API request sent', {
-          model: selectedModel,
-          messageCount: contents.length,
-          requestSize: JSON.stringify({ contents }).length,
-          timestamp: new Date().toISOString()
-        });
+      await requestCompletion(truncatedMessages, 'runFromMessage');
+    }
+  };
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          debugLog('runFromMessage - API error', { status: response.status, errorText });
-          throw new Error(`API error: ${response.status} - ${errorText}`);
-        }
+  // Ask the model to carry on from a reply that hit the output token limit
+  const continueMessage = async (index: number) => {
+    debugLog('continueMessage called', { index });
 
-        const result = await response.json();
-        debugLog('runFromMessage - API response received', {
-          status: response.status,
-          hasContent: !!result.candidates?.[0]?.content?.parts?.[0]?.text
-        });
+    // Keep messages up to and including the truncated reply
+    const truncatedMessages = messages.slice(0, index + 1);
 
-        const aiResponse = result.candidates?.[0]?.content?.parts?.[0]?.text || "Sorry, I couldn't generate a response.";
+    // The follow-up instruction is sent but not added to the chat
+    const continueInstruction: Message = {
+      role: 'user',
+      content: "Continue exactly where your last response stopped. Do not repeat anything you already wrote.",
+      id: `continue-${Date.now()}`
+    };
 
-        // Add AI response to chat without active examples
-        const assistantMessage = {
-          role: 'assistant' as const,
-          content: aiResponse,
-          id: `assistant-${Date.now()}`
-        };
+    // Check the provider and generation settings before sending
+    if (!ensureReadyToSend('continueMessage', [...truncatedMessages, continueInstruction])) {
+      return;
+    }
 
-        debugLog('runFromMessage - adding assistant response', {
-          messageId: assistantMessage.id,
-          contentLength: aiResponse.length
-        });
+    setMessages(truncatedMessages);
 
-        setMessages(prev => [...prev, assistantMessage]);
-      } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        // Extract the error message - show the specific error instead of a generic message
-        const errorMessage = error instanceof Error
-          ? `Error: ${error.message}`
-          : "Unknown error occurred";
-
-        debugLog('runFromMessage - error occurred', { errorMessage });
-
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: `Failed to get response from Gemini API. ${errorMessage}`,
-          id: `error-${Date.now()}`
-        }]);
-      } finally {
-        setIsLoading(false);
-        logPerformance('runFromMessage', start);
-      }
-    }
+    await requestCompletion([...truncatedMessages, continueInstruction], 'continueMessage', { continuedMessage: messages[index] });
   };
 
-  // Add a new function to run examples and template without a user message
+  // Stable handlers for the memoized ChatMessage, which isn't re-rendered when they change.
+  // They call the latest closures, so a rerun or continuation uses the current model and settings.
+  const messageActionsRef = useRef({ runFromMessage, continueMessage });
+  messageActionsRef.current = { runFromMessage, continueMessage };
+  const handleRunFromMessage = useCallback((index: number) => messageActionsRef.current.runFromMessage(index), []);
+  const handleContinueMessage = useCallback((index: number) => messageActionsRef.current.continueMessage(index), []);
+
+  // Run examples and template without a user message - asks for the template's variables first, if it has any
   const handleRunExamplesAndTemplate = async () => {
-    const start = performance.now();
-    debugLog('handleRunExamplesAndTemplate called');
+    debugLog('handleRunExamplesAndTemplate called', { variablesCount: templateVariables.length });
 
-    // Check if API key is set
-    if (!apiKey) {
-      debugLog('handleRunExamplesAndTemplate - no API key, opening config dialog');
-      setIsConfigDialogOpen(true);
+    // Check the provider and generation settings before sending
+    if (!ensureReadyToSend('handleRunExamplesAndTemplate')) {
       return;
     }
 
-    setIsLoading(true);
-
-    try {
-      // Create a special system message explaining what we're doing
-      const systemMessage: Message = {
-        role: 'user',
-        content: "Based on the information provided above, please respond following the instructions.",
-        id: `system-${Date.now()}`
-      };
-
-      debugLog('handleRunExamplesAndTemplate - adding system message', { messageId: systemMessage.id });
-
-      // Add the system message to chat
-      setMessages(prev => [...prev, systemMessage]);
-
-      // Scroll to bottom immediately when running examples/template
-      scrollToBottom(false);
-
-      debugLog('handleRunExamplesAndTemplate - preparing API call');
-      // Generate API payload only when needed
-      const contents = generateApiPayload(messages, systemMessage);
-
-      debugLog('handleRunExamplesAndTemplate - sending API request', { model: selectedModel });
-
-      // Call Gemini API
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents,
-            generationConfig: {
-              responseMimeType: "text/plain",
-            }
-          })
-        }
-      );
-
-      debugLog('handleRunExamplesAndTemplate - API request sent', {
-        model: selectedModel,
-        messageCount: contents.length,
-        requestSize: JSON.stringify({ contents }).length,
-        timestamp: new Date().toISOString()
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        debugLog('handleRunExamplesAndTemplate - API error', { status: response.status, errorText });
-        throw new Error(`API error: ${response.status} - ${errorText}`);
-      }
+    if (templateVariables.length > 0) {
+      setIsTemplateVariablesFormOpen(true);
+      return;
+    }
 
-      const result = await response.json();
-      debugLog('handleRunExamplesAndTemplate - API response received', {
-        status: response.status,
-        hasContent: !!result.candidates?.[0]?.content?.parts?.[0]?.text
-      });
+    await runExamplesAndTemplate();
+  };
 
-      const aiResponse = result.candidates?.[0]?.content?.parts?.[0]?.text || "Sorry, I couldn't generate a response.";
+  // Keep the filled-in values in the template, then run with them - unless a field is still invalid
+  const handleSubmitTemplateVariables = async (values: TemplateVariableValues, files: Record<string, Attachment[]>) => {
+    const filledTemplate = applyTemplateVariables(promptTemplate, values, files);
+    setPromptTemplate(filledTemplate);
+    const errors = getTemplateErrors(filledTemplate);
+    if (Object.keys(errors).length > 0) {
+      debugLog('handleSubmitTemplateVariables - invalid fields', errors);
+      return;
+    }
+    setIsTemplateVariablesFormOpen(false);
+    await runExamplesAndTemplate(filledTemplate);
+  };
 
-      // Add AI response to chat
-      const assistantMessage = {
-        role: 'assistant' as const,
-        content: aiResponse,
-        id: `assistant-${Date.now()}`
-      };
+  const runExamplesAndTemplate = async (template?: PromptTemplateType) => {
+    // Create a special system message explaining what we're doing
+    const systemMessage: Message = {
+      role: 'user',
+      content: RUN_INSTRUCTION,
+      id: `system-${Date.now()}`
+    };
 
-      debugLog('handleRunExamplesAndTemplate - adding assistant response', {
-        messageId: assistantMessage.id,
-        contentLength: aiResponse.length
-      });
+    debugLog('handleRunExamplesAndTemplate - adding system message', { messageId: systemMessage.id });
 
-      setMessages(prev => [...prev, assistantMessage]);
-    } catch (error) {
-      console.error("Error calling Gemini API:", error);
-      // Extract the error message - show the specific error instead of a generic message
-      const errorMessage = error instanceof Error
-        ? `Error: ${error.message}`
-        : "Unknown error occurred";
+    // Add the system message to chat
+    setMessages(prev => [...prev, systemMessage]);
 
-      debugLog('handleRunExamplesAndTemplate - error occurred', { errorMessage });
+    // Scroll to bottom immediately when running examples/template
+    scrollToBottom(false);
 
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: `Failed to get response from Gemini API. ${errorMessage}`,
-        id: `error-${Date.now()}`
-      }]);
-    } finally {
-      setIsLoading(false);
-      logPerformance('handleRunExamplesAndTemplate', start);
-    }
+    // Examples are retrieved for the template, since the run has no user message of its own
+    await requestCompletion([...messages, systemMessage], 'handleRunExamplesAndTemplate', {
+      template,
+      retrievalQuery: formatPromptTemplate(template || promptTemplate)
+    });
   };
 
   // Enable dark mode by default
@@ -1071,6 +2061,38 @@ function App() {
     setInput(e.target.value);
   }, []);
   
+  // Read pasted, dropped or picked files into the draft, within the per-message cap
+  const addDraftFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    debugLog('addDraftFiles called', { count: files.length });
+    const { attachments, errors } = await readFilesAsAttachments(files, draftAttachments, MAX_MESSAGE_ATTACHMENTS_BYTES);
+    setAttachmentErrors(errors);
+    if (attachments.length > 0) {
+      setDraftAttachments(prev => [...prev, ...attachments]);
+    }
+  }, [draftAttachments]);
+
+  // Pasted images and files become attachments; pasted text goes into the input as usual
+  const handleInputPaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addDraftFiles(files);
+    }
+  }, [addDraftFiles]);
+
+  const handleComposerDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  }, []);
+
+  const handleComposerDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addDraftFiles(Array.from(e.dataTransfer.files));
+  }, [addDraftFiles]);
+
   // Simple key handler - just for Enter key
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -1079,9 +2101,8 @@ function App() {
     }
   }, [handleSendMessage]);
 
-  // Function to format and copy entire prompt (examples + template)
-  const copyFormattedPrompt = useCallback(() => {
-    debugLog('copyFormattedPrompt called');
+  // Format entire prompt (examples + template) as plain text
+  const formatPlainTextPrompt = useCallback((): string => {
     
     // Helper function to clean text by removing consecutive spaces and line breaks
     const cleanText = (text: string): string => {
@@ -1093,14 +2114,21 @@ function App() {
     
     let promptText = "";
     
+    // Add system instruction if it exists
+    const systemText = formatSystemInstruction(promptTemplate);
+    if (systemText) {
+      promptText += "# System Instruction\n";
+      promptText += cleanText(systemText) + "\n\n";
+    }
+    
     // Add examples if they exist
-    if (examples.length > 0) {
+    if (activeExamples.length > 0) {
       promptText += "# Examples\n";
       // Create more compact examples format
-      examples.forEach((example) => {
-        const labels = exampleTypeLabels[example.type];
-        promptText += `${labels.first}: ${cleanText(example.firstField)}\n`;
-        promptText += `${labels.second}: ${cleanText(example.secondField)}\n`;
+      activeExamples.forEach((example) => {
+        getExampleFields(example, findExampleSchema(exampleSchemas, example.schemaId)).forEach(field => {
+          promptText += `${field.label}: ${cleanText(field.value)}\n`;
+        });
       });
     }
     
@@ -1109,28 +2137,46 @@ function App() {
       if (promptText) promptText += "\n";
       promptText += "# Prompt Template\n";
       // Join template inputs with minimal spacing
+      const values = getTemplateVariableValues(promptTemplate);
       promptText += promptTemplate.inputs
-        .map(input => cleanText(input.content))
+        .filter(input => input.type !== 'system')
+        .map(input => cleanText(formatTemplateInput(input, values)))
         .filter(content => content) // Remove empty inputs
         .join("\n");
     }
     
     // Final cleanup to ensure the entire text is optimized
-    promptText = promptText
+    return promptText
       .replace(/\n{3,}/g, '\n\n') // Limit maximum consecutive line breaks to 2
       .trim();
-    
-    if (promptText) {
-      copy(promptText);
+  }, [activeExamples, promptTemplate, exampleSchemas]);
+
+  // Model each provider's export is built for - the selected model for its own provider
+  const exportModels = useMemo(
+    () => ({ ...DEFAULT_PROVIDER_MODELS, [selectedProviderId]: selectedModel }),
+    [selectedProviderId, selectedModel]
+  );
+
+  // Copy the prompt (examples + template, no conversation) in one of the export formats
+  const copyPromptAs = useCallback((format: ExportFormat) => {
+    debugLog('copyPromptAs called', { format });
+    const payload = generateApiPayload([], null, { examples: activeExamples });
+    const requests = Object.fromEntries(PROVIDER_IDS.map(providerId =>
+      [providerId, buildGenerateRequest(payload, exportModels[providerId])])) as Record<ProviderId, GenerateRequest>;
+    const exported = exportPrompt(format, requests, selectedProviderId, providerConfigs, formatPlainTextPrompt());
+
+    if (exported) {
+      copy(exported);
       setPromptCopied(true);
       setTimeout(() => setPromptCopied(false), 2000);
-      debugLog('Ultra compact prompt copied to clipboard', { 
-        examplesCount: examples.length, 
+      debugLog('Prompt copied to clipboard', {
+        format,
+        examplesCount: activeExamples.length,
         templateInputsCount: promptTemplate?.inputs?.length || 0,
-        totalLength: promptText.length
+        totalLength: exported.length
       });
     }
-  }, [examples, promptTemplate]);
+  }, [buildGenerateRequest, generateApiPayload, activeExamples, exportModels, selectedProviderId, providerConfigs, formatPlainTextPrompt, promptTemplate]);
 
   return (
     <div className="flex flex-col h-screen min-h-svh bg-background text-foreground antialiased">
@@ -1163,6 +2209,12 @@ function App() {
             
             {/* Right actions group */}
             <div className="flex items-center gap-2">
+              {saveError && (
+                <span className="text-xs text-destructive max-w-xs truncate" title={saveError}>
+                  {saveError}
+                </span>
+              )}
+
               {/* Save Project Button with indicator */}
               <Button
                 variant="outline"
@@ -1182,44 +2234,49 @@ function App() {
                 )}
               </Button>
 
-              {/* API key config dialog */}
+              {/* Request/response inspector drawer */}
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-muted-foreground hover:text-foreground transition-colors duration-200"
+                    title="Inspect API requests and responses"
+                  >
+                    <Activity className="h-5 w-5" />
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="right" className="w-full sm:max-w-2xl gap-2">
+                  <InspectorPanel />
+                </SheetContent>
+              </Sheet>
+
+              {/* Provider settings dialog */}
               <Dialog open={isConfigDialogOpen} onOpenChange={setIsConfigDialogOpen}>
                 <DialogTrigger asChild>
                   <Button
                     variant="ghost"
                     size="icon"
                     className="relative text-muted-foreground hover:text-foreground transition-colors duration-200"
-                    title="API key configuration"
+                    title="Provider and API key settings"
                   >
                     <Settings className="h-5 w-5" />
-                    {!apiKey && (
+                    {!isProviderConfigured && (
                       <div className="absolute top-1 right-1 h-2 w-2 rounded-full bg-red-500"></div>
                     )}
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="sm:max-w-md">
-                  <DialogHeader>
-                    <DialogTitle>API Key Configuration</DialogTitle>
-                    <DialogDescription>
-                      Enter your Gemini API key. This will be saved in your browser's local storage.
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="mt-4 mb-4">
-                    <Input
-                      value={tempApiKey}
-                      onChange={(e) => setTempApiKey(e.target.value)}
-                      placeholder="Enter Gemini API key"
-                      className="w-full"
-                      type="password"
-                    />
-                  </div>
-                  <DialogFooter>
-                    <Button variant="outline" onClick={() => setIsConfigDialogOpen(false)}>Cancel</Button>
-                    <Button onClick={() => {
-                      saveApiKey(tempApiKey);
+                <DialogContent className="sm:max-w-lg">
+                  <ProviderSettings
+                    providerConfigs={providerConfigs}
+                    customModels={customModels}
+                    modelProviders={modelProviders}
+                    onSave={(values) => {
+                      saveProviderSettings(values);
                       setIsConfigDialogOpen(false);
-                    }}>Save API Key</Button>
-                  </DialogFooter>
+                    }}
+                    onCancel={() => setIsConfigDialogOpen(false)}
+                  />
                 </DialogContent>
               </Dialog>
             </div>
@@ -1257,8 +2314,11 @@ function App() {
                   <h3 className="text-sm font-medium flex items-center gap-1.5 whitespace-nowrap overflow-hidden">
                     <span className="text-foreground">Examples</span>
                     {examples.length > 0 && (
-                      <span className="text-xs text-muted-foreground bg-muted/40 px-1.5 py-0 rounded-full flex-shrink-0 min-w-[18px] text-center">
-                        {examples.length}
+                      <span
+                        className="text-xs text-muted-foreground bg-muted/40 px-1.5 py-0 rounded-full flex-shrink-0 min-w-[18px] text-center"
+                        title={`${activeExamples.length} of ${examples.length} examples are sent`}
+                      >
+                        {activeExamples.length === examples.length ? examples.length : `${activeExamples.length}/${examples.length}`}
                       </span>
                     )}
                   </h3>
@@ -1282,10 +2342,18 @@ function App() {
                   <Examples
                     examples={examples}
                     setExamples={setExamples as React.Dispatch<React.SetStateAction<Example[]>>}
-                    activeExampleIds={[]}
-                    setActiveExampleIds={() => { }}
+                    activeExampleIds={activeExampleIds}
+                    setActiveExampleIds={setActiveExampleIds}
                     showExampleManager={false}
                     setShowExampleManager={() => { }}
+                    serialization={exampleSerialization}
+                    onSerializationChange={setExampleSerialization}
+                    customSchemas={customExampleSchemas}
+                    onCustomSchemasChange={setCustomExampleSchemas}
+                    selectionSettings={exampleSelection}
+                    onSelectionSettingsChange={setExampleSelection}
+                    providerName={PROVIDERS[selectedProviderId].displayName}
+                    defaultEmbeddingModel={PROVIDERS[selectedProviderId].defaultEmbeddingModel}
                   />
                 </div>
               )}
@@ -1351,38 +2419,155 @@ function App() {
                 <div className="flex items-center gap-2">
 
                   {/* Model selector dropdown */}
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
+                  <ModelSelector
+                    models={allModels}
+                    selectedModel={selectedModel}
+                    onSelectModel={setSelectedModel}
+                    resolveProvider={resolveProvider}
+                    onAddCustomModel={addCustomModel}
+                    onRefresh={refreshModelList}
+                    isRefreshing={isModelListRefreshing}
+                    errors={modelListErrors}
+                  />
+
+                  {/* Output mode dialog */}
+                  <Dialog open={isOutputSettingsOpen} onOpenChange={setIsOutputSettingsOpen}>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={`relative text-xs flex items-center gap-1.5 bg-background/70 h-7 px-3 border-border/20 shadow-sm hover:bg-background ${isJsonMode ? 'text-foreground' : 'text-muted-foreground'}`}
+                        title="Output mode and response schema"
+                      >
+                        <Braces className="h-[10px] w-[10px] flex-shrink-0" />
+                        <span>{isJsonMode ? 'JSON' : 'Text'}</span>
+                        {isJsonMode && parsedResponseSchema.error && (
+                          <div className="absolute top-0 right-0 h-2 w-2 rounded-full bg-red-500 translate-x-1/2 -translate-y-1/2"></div>
+                        )}
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-lg">
+                      <OutputSettingsEditor
+                        settings={outputSettings}
+                        onSave={(settings) => {
+                          setOutputSettings(settings);
+                          setIsOutputSettingsOpen(false);
+                        }}
+                        onCancel={() => setIsOutputSettingsOpen(false)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+
+                  {/* Usage and cost dialog */}
+                  <Dialog open={isUsageSummaryOpen} onOpenChange={setIsUsageSummaryOpen}>
+                    <DialogTrigger asChild>
                       <Button
                         variant="outline"
                         size="sm"
                         className="text-xs flex items-center gap-1.5 bg-background/70 text-muted-foreground h-7 px-3 border-border/20 shadow-sm hover:bg-background"
+                        title="Token usage and estimated cost"
+                      >
+                        <Coins className="h-[10px] w-[10px] flex-shrink-0" />
+                        <span>{modelUsage.length > 0 ? formatCost(totalCost) : 'Usage'}</span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-2xl">
+                      <UsageSummary
+                        modelUsage={modelUsage}
+                        prices={modelPrices}
+                        onSavePrices={(prices) => {
+                          saveModelPrices(prices);
+                          setIsUsageSummaryOpen(false);
+                        }}
+                        onCancel={() => setIsUsageSummaryOpen(false)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+
+                  {/* Conversation history dialog */}
+                  <Dialog open={isHistorySettingsOpen} onOpenChange={setIsHistorySettingsOpen}>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={`text-xs flex items-center gap-1.5 bg-background/70 h-7 px-3 border-border/20 shadow-sm hover:bg-background ${historySettings.strategy !== 'all' ? 'text-foreground' : 'text-muted-foreground'}`}
+                        title="Conversation history sent with each request"
+                      >
+                        <History className="h-[10px] w-[10px] flex-shrink-0" />
+                        <span>{HISTORY_STRATEGIES.find(s => s.value === historySettings.strategy)?.label}</span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-md">
+                      <HistorySettingsEditor
+                        settings={historySettings}
+                        inputTokenLimit={inputTokenLimit}
+                        onSave={(settings) => {
+                          setHistorySettings(settings);
+                          setIsHistorySettingsOpen(false);
+                        }}
+                        onCancel={() => setIsHistorySettingsOpen(false)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+
+                  {/* Safety settings dialog */}
+                  <Dialog open={isSafetySettingsOpen} onOpenChange={setIsSafetySettingsOpen}>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={`text-xs flex items-center gap-1.5 bg-background/70 h-7 px-3 border-border/20 shadow-sm hover:bg-background ${customSafetySettingsCount > 0 ? 'text-foreground' : 'text-muted-foreground'}`}
+                        title="Safety settings"
                       >
-                        <Box className="h-[10px] w-[10px] flex-shrink-0" />
-                        <span className="truncate max-w-28">
-                          {MODELS.find((m: Model) => m.name === selectedModel)?.displayName || selectedModel}
+                        <ShieldAlert className="h-[10px] w-[10px] flex-shrink-0" />
+                        <span>{customSafetySettingsCount > 0 ? `Safety ${customSafetySettingsCount}` : 'Safety'}</span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-md">
+                      <SafetySettingsEditor
+                        settings={safetySettings}
+                        providerName={PROVIDERS[selectedProviderId].displayName}
+                        isSupported={selectedProviderId === 'gemini'}
+                        onSave={(settings) => {
+                          setSafetySettings(settings);
+                          setIsSafetySettingsOpen(false);
+                        }}
+                        onCancel={() => setIsSafetySettingsOpen(false)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+
+                  {/* Generation settings dialog */}
+                  <Dialog open={isGenerationSettingsOpen} onOpenChange={setIsGenerationSettingsOpen}>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="relative text-xs flex items-center gap-1.5 bg-background/70 text-muted-foreground h-7 px-3 border-border/20 shadow-sm hover:bg-background"
+                        title="Generation settings"
+                      >
+                        <SlidersHorizontal className="h-[10px] w-[10px] flex-shrink-0" />
+                        <span>
+                          {generationSettings.temperature !== undefined ? `T ${generationSettings.temperature}` : 'Settings'}
                         </span>
-                        <ChevronDown className="h-3 w-3 opacity-70 flex-shrink-0 ml-1" />
+                        {hasGenerationSettingsErrors && (
+                          <div className="absolute top-0 right-0 h-2 w-2 rounded-full bg-red-500 translate-x-1/2 -translate-y-1/2"></div>
+                        )}
                       </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end" className="w-64">
-                      {MODELS.map((model) => (
-                        <DropdownMenuItem
-                          key={model.name}
-                          className={`flex items-center justify-between ${model.name === selectedModel ? 'bg-primary/5' : ''}`}
-                          onSelect={() => setSelectedModel(model.name)}
-                        >
-                          <div className="flex items-center gap-2">
-                            <span className="text-sm">{model.displayName}</span>
-                            {model.name === selectedModel && (
-                              <Check className="h-3.5 w-3.5 text-primary flex-shrink-0" />
-                            )}
-                          </div>
-                          <span className="text-xs text-muted-foreground truncate max-w-32">{model.name}</span>
-                        </DropdownMenuItem>
-                      ))}
-                    </DropdownMenuContent>
-                  </DropdownMenu>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-md">
+                      <GenerationSettingsEditor
+                        settings={generationSettings}
+                        limits={generationLimits}
+                        modelName={allModels.find(m => m.name === selectedModel)?.displayName || selectedModel}
+                        onSave={(settings) => {
+                          setGenerationSettings(settings);
+                          setIsGenerationSettingsOpen(false);
+                        }}
+                        onCancel={() => setIsGenerationSettingsOpen(false)}
+                      />
+                    </DialogContent>
+                  </Dialog>
                 </div>
               </h2>
             </div>
@@ -1408,39 +2593,135 @@ function App() {
                         </span>
                       </h3>
                       
-                      {/* Copy All Button */}
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={copyFormattedPrompt}
-                        className="text-xs flex items-center gap-1.5 h-7 px-3 bg-background/70 hover:bg-background border-border/20"
-                        title="Copy formatted examples and template for use in other chatbots"
-                      >
-                        {promptCopied ? (
-                          <>
-                            <CheckCheck className="h-3 w-3" />
-                            <span>Copied!</span>
-                          </>
-                        ) : (
-                          <>
-                            <Copy className="h-3 w-3" />
-                            <span>Copy All</span>
-                          </>
-                        )}
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        {/* Exact payload preview */}
+                        <Dialog open={isPayloadPreviewOpen} onOpenChange={setIsPayloadPreviewOpen}>
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-xs flex items-center gap-1.5 h-7 px-3 bg-background/70 hover:bg-background border-border/20"
+                              title="Show exactly what the next send contains"
+                            >
+                              <Eye className="h-3 w-3" />
+                              <span>Preview Payload</span>
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="sm:max-w-3xl">
+                            {payloadPreview && (
+                              <PayloadPreview
+                                request={payloadPreview.request}
+                                providerRequest={payloadPreview.providerRequest}
+                                providerName={PROVIDERS[selectedProviderId].displayName}
+                                tokenCounts={tokenCounts}
+                                inputTokenLimit={inputTokenLimit}
+                                history={payloadPreview.history}
+                                note={exampleSelection.mode === 'retrieval' && exampleSelection.backend === 'embeddings'
+                                  ? 'Examples are picked by embeddings when sending - this preview shows the BM25 pick.'
+                                  : undefined}
+                              />
+                            )}
+                          </DialogContent>
+                        </Dialog>
+
+                        {/* Copy All menu - the examples and template in each export format */}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-xs flex items-center gap-1.5 h-7 px-3 bg-background/70 hover:bg-background border-border/20"
+                              title="Copy the examples and template for use in other chatbots and code"
+                            >
+                              {promptCopied ? (
+                                <>
+                                  <CheckCheck className="h-3 w-3" />
+                                  <span>Copied!</span>
+                                </>
+                              ) : (
+                                <>
+                                  <Copy className="h-3 w-3" />
+                                  <span>Copy All</span>
+                                  <ChevronDown className="h-3 w-3 opacity-60" />
+                                </>
+                              )}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-60">
+                            {EXPORT_FORMATS.map(option => (
+                              <DropdownMenuItem
+                                key={option.value}
+                                onClick={() => copyPromptAs(option.value)}
+                                className="cursor-pointer rounded-lg py-2 flex flex-col items-start gap-0.5"
+                              >
+                                <span>{option.label}</span>
+                                <span className="text-[10px] text-muted-foreground">
+                                  {option.providerId
+                                    ? `${option.description}, for ${exportModels[option.providerId]}`
+                                    : option.value === 'curl' || option.value === 'typescript' || option.value === 'python'
+                                      ? `${option.description} for ${PROVIDERS[selectedProviderId].displayName}`
+                                      : option.description}
+                                </span>
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
                     </div>
 
+                    {/* Safety thresholds that differ from the model defaults */}
+                    {customSafetySettingsCount > 0 && (
+                      <div className="mb-3">
+                        <div className="flex items-center mb-2">
+                          <button
+                            onClick={() => setIsSafetySettingsOpen(true)}
+                            className="text-xs font-semibold bg-amber-500/10 text-amber-500 px-2 py-1 rounded-md flex items-center gap-1 hover:bg-amber-500/20"
+                            title="Edit safety settings"
+                          >
+                            <ShieldAlert className="h-3 w-3" />
+                            Custom Safety Settings
+                          </button>
+                        </div>
+                        <div className="flex flex-wrap gap-1.5 text-[10px] text-muted-foreground">
+                          {HARM_CATEGORIES.filter(({ value }) => safetySettings[value]).map(({ value, label }) => (
+                            <span key={value} className="bg-primary/5 border border-primary/10 rounded-md px-1.5 py-0.5">
+                              {label}: {HARM_BLOCK_THRESHOLDS.find(t => t.value === safetySettings[value])?.label}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* System Instruction Display */}
+                    {systemInstruction && (
+                      <div className="mb-3">
+                        <div className="flex items-center mb-2">
+                          <span className="text-xs font-semibold bg-primary/10 text-primary px-2 py-1 rounded-md">
+                            System Instruction
+                          </span>
+                        </div>
+                        <div className="bg-primary/5 border border-primary/10 rounded-lg p-2 text-[10px] text-muted-foreground line-clamp-3 whitespace-pre-wrap">
+                          {systemInstruction}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Examples Display */}
-                    {examples.length > 0 && (
+                    {activeExamples.length > 0 && (
                       <div className="mb-3">
                         <div className="flex items-center mb-2">
                           <span className="text-xs font-semibold bg-primary/10 text-primary px-2 py-1 rounded-md">
                             Examples
                           </span>
+                          <span className="text-[10px] text-muted-foreground ml-2">
+                            {EXAMPLE_SERIALIZATIONS.find(option => option.value === exampleSerialization)?.label}
+                            {activeExamples.length < examples.length && ` · ${examples.length - activeExamples.length} left out`}
+                            {exampleSelection.mode === 'retrieval' && ` · top ${exampleSelection.topK} most similar sent per message`}
+                          </span>
                         </div>
                         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
-                          {examples.map((example, idx) => {
-                            const labels = exampleTypeLabels[example.type];
+                          {activeExamples.map((example) => {
+                            const schema = findExampleSchema(exampleSchemas, example.schemaId);
                             // Truncate long content
                             const truncateText = (text: string, maxLength = 30) =>
                               text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
@@ -1451,15 +2732,21 @@ function App() {
                                 className="bg-primary/5 border border-primary/10 rounded-lg p-2 text-xs flex flex-col"
                               >
                                 <div className="flex items-center justify-between mb-1">
-                                  <span className="font-medium text-primary/80">Example {idx + 1}</span>
-                                  <span className="text-[10px] bg-muted/50 px-1 py-0.5 rounded text-muted-foreground">{example.type}</span>
-                                </div>
-                                <div className="text-muted-foreground mb-1 text-[10px] line-clamp-1">
-                                  <span className="font-medium">{labels.first}:</span> {truncateText(example.firstField)}
-                                </div>
-                                <div className="text-muted-foreground text-[10px] line-clamp-1">
-                                  <span className="font-medium">{labels.second}:</span> {truncateText(example.secondField)}
+                                  <span className="font-medium text-primary/80">Example {examples.indexOf(example) + 1}</span>
+                                  <span className="text-[10px] bg-muted/50 px-1 py-0.5 rounded text-muted-foreground">{schema.name}</span>
                                 </div>
+                                {getExampleFields(example, schema).map(field => (
+                                  <div key={field.id} className="mb-1 last:mb-0">
+                                    <div className="text-muted-foreground text-[10px] line-clamp-1">
+                                      <span className="font-medium">{field.label}:</span> {truncateText(field.value)}
+                                    </div>
+                                    {field.attachments.length > 0 && (
+                                      <div className="mt-1">
+                                        <Attachments attachments={field.attachments} size="sm" />
+                                      </div>
+                                    )}
+                                  </div>
+                                ))}
                               </div>
                             );
                           })}
@@ -1468,7 +2755,7 @@ function App() {
                     )}
 
                     {/* Template Display */}
-                    {promptTemplate?.inputs?.length > 0 && (
+                    {templateInputs.length > 0 && (
                       <div>
                         <div className="flex items-center mb-2">
                           <span className="text-xs font-semibold bg-primary/10 text-primary px-2 py-1 rounded-md">
@@ -1479,16 +2766,19 @@ function App() {
                           <div className="flex items-center justify-between mb-1">
                             <span className="font-medium text-primary/80">Template</span>
                           </div>
-                          {promptTemplate.inputs.map((input, idx) => (
-                            <div key={input.id} className="text-muted-foreground mb-1.5 last:mb-0 text-[10px] line-clamp-1">
-                              <span className="font-medium">
-                                {input.type === 'input' ? 'Variable' : 'Text'} {idx + 1}:
-                              </span>{' '}
-                              {input.content.length > 40
-                                ? `${input.content.substring(0, 40)}...`
-                                : input.content || `<empty ${input.type}>`}
-                            </div>
-                          ))}
+                          {templateInputs.map((input, idx) => {
+                            const content = formatTemplateInput(input, templateVariableValues);
+                            return (
+                              <div key={input.id} className="text-muted-foreground mb-1.5 last:mb-0 text-[10px] line-clamp-1">
+                                <span className="font-medium">
+                                  {input.type === 'input' ? `{{${templateVariables.find(variable => variable.inputId === input.id)?.name ?? 'variable'}}}` : `Text ${idx + 1}`}:
+                                </span>{' '}
+                                {content.length > 40
+                                  ? `${content.substring(0, 40)}...`
+                                  : content || `<empty ${input.type}>`}
+                              </div>
+                            );
+                          })}
                         </div>
                       </div>
                     )}
@@ -1558,12 +2848,15 @@ function App() {
                       startEditingMessage={startEditingMessage}
                       saveMessageEdit={saveMessageEdit}
                       cancelMessageEdit={cancelMessageEdit}
-                      runFromMessage={runFromMessage}
+                      runFromMessage={handleRunFromMessage}
+                      continueMessage={handleContinueMessage}
                       isLoading={isLoading}
+                      isStreaming={message.id === streamingMessageId}
+                      price={message.model ? modelPrices[message.model] : undefined}
                     />
                   ))
                 )}
-                {isLoading && (
+                {isLoading && !streamingMessageId && (
                   <div className="flex justify-start">
                     <div className="max-w-[80%] rounded-2xl px-4 py-3 bg-secondary text-secondary-foreground">
                       <RefreshCw className="h-4 w-4 animate-spin" />
@@ -1577,51 +2870,140 @@ function App() {
           {/* Input Area (Fixed Height, Bottom) */}
           <div className="flex-shrink-0 z-10 backdrop-blur-xl bg-background/90 border-t border-border/30 py-6 pb-8 sm:pb-6">
             <div className="max-w-4xl mx-auto px-6">
+              {/* Context budget meter */}
+              <div className="mb-3">
+                <TokenMeter counts={tokenCounts} inputTokenLimit={inputTokenLimit} />
+              </div>
+
               {/* Message Input Area with RUN button */}
               <div className="flex items-start gap-3">
                 {/* Message input and send button section */}
                 <div className="flex items-start gap-3 flex-1">
-                  <div className="flex-1 relative">
+                  <div
+                    className="flex-1 relative"
+                    onDragOver={handleComposerDragOver}
+                    onDragLeave={() => setIsDraggingFiles(false)}
+                    onDrop={handleComposerDrop}
+                  >
+                    {/* Draft attachments, with the file picker */}
+                    <div className="mb-2">
+                      <Attachments
+                        attachments={draftAttachments}
+                        onChange={setDraftAttachments}
+                        onAddFiles={addDraftFiles}
+                        size="sm"
+                      />
+                      {attachmentErrors.map((error, i) => (
+                        <div key={i} className="text-xs text-destructive">{error}</div>
+                      ))}
+                    </div>
                     <Textarea
                       value={input}
                       onChange={handleInputChange}
                       onKeyDown={handleKeyDown}
-                      placeholder="Type your message..."
-                      className="w-full resize-none bg-background text-foreground rounded-2xl h-[100px] py-4 px-4 border-border/70 focus:outline-none focus:border-primary/30 focus:ring-1 focus:ring-primary/20 scrollbar-thin scrollbar-thumb-border scrollbar-track-transparent shadow-sm transition-all duration-200 ease-in-out hover:shadow-md"
+                      onPaste={handleInputPaste}
+                      placeholder="Type your message, or paste or drop files..."
+                      className={`w-full resize-none bg-background text-foreground rounded-2xl h-[100px] py-4 px-4 border-border/70 focus:outline-none focus:border-primary/30 focus:ring-1 focus:ring-primary/20 scrollbar-thin scrollbar-thumb-border scrollbar-track-transparent shadow-sm transition-all duration-200 ease-in-out hover:shadow-md ${isDraggingFiles ? 'border-primary/50 ring-1 ring-primary/30' : ''}`}
                     />
                   </div>
 
-                  {/* Send Button */}
-                  <Button
-                    onClick={handleSendMessage}
-                    disabled={isLoading || !input.trim()}
-                    className="rounded-full h-12 w-12 p-0 flex items-center justify-center flex-shrink-0 shadow-sm hover:shadow transition-all duration-200"
-                  >
-                    <SendIcon className="h-5 w-5" />
-                  </Button>
+                  {/* Send Button - replaced by Stop while a response is generating */}
+                  {isLoading ? (
+                    <Button
+                      onClick={stopGeneration}
+                      variant="secondary"
+                      className="rounded-full h-12 w-12 p-0 flex items-center justify-center flex-shrink-0 shadow-sm hover:shadow transition-all duration-200"
+                      title="Stop generating"
+                    >
+                      <Square className="h-4 w-4 fill-current" />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={!input.trim() && draftAttachments.length === 0}
+                      className="rounded-full h-12 w-12 p-0 flex items-center justify-center flex-shrink-0 shadow-sm hover:shadow transition-all duration-200"
+                      title="Send message"
+                    >
+                      <SendIcon className="h-5 w-5" />
+                    </Button>
+                  )}
                 </div>
 
                 {/* Vertical separator */}
                 <div className="h-12 w-px bg-border/50 mx-2 self-center"></div>
 
-                {/* RUN Button - Only enabled if there are examples or templates */}
+                {/* RUN Button - Only enabled if there are examples or templates.
+                    Invalid template fields mark it; it then opens the form with the fields flagged. */}
                 <Button
                   onClick={handleRunExamplesAndTemplate}
-                  disabled={isLoading || (examples.length === 0 && (!promptTemplate || promptTemplate.inputs.length === 0))}
-                  className="rounded-full h-12 px-5 text-sm font-medium flex-shrink-0 bg-primary hover:bg-primary/90 text-primary-foreground shadow-sm hover:shadow-md transition-all duration-200 flex items-center gap-2"
-                  title="Run examples and template to get AI response"
+                  disabled={isLoading || (activeExamples.length === 0 && (!promptTemplate || promptTemplate.inputs.length === 0))}
+                  aria-invalid={templateErrorCount > 0}
+                  className={`rounded-full h-12 px-5 text-sm font-medium flex-shrink-0 bg-primary hover:bg-primary/90 text-primary-foreground shadow-sm hover:shadow-md transition-all duration-200 flex items-center gap-2
+                    ${templateErrorCount > 0 ? 'ring-2 ring-destructive ring-offset-1 ring-offset-background' : ''}`}
+                  title={templateErrorCount > 0
+                    ? `${templateErrorCount} template field${templateErrorCount === 1 ? ' needs' : 's need'} a valid value before running`
+                    : templateVariables.length > 0
+                      ? "Fill in the template's variables, then run examples and template"
+                      : "Run examples and template to get AI response"}
                 >
                   <span>RUN</span>
-                  {(examples.length > 0 || (promptTemplate && promptTemplate.inputs.length > 0)) && (
+                  {templateErrorCount > 0 && (
+                    <span className="text-xs bg-destructive text-white px-1.5 py-0.5 rounded-full flex items-center gap-0.5">
+                      <AlertTriangle className="h-3 w-3" />
+                      {templateErrorCount}
+                    </span>
+                  )}
+                  {(activeExamples.length > 0 || (promptTemplate && promptTemplate.inputs.length > 0)) && (
                     <span className="text-xs bg-white/20 text-white px-1.5 py-0.5 rounded-full">
-                      {examples.length > 0 && promptTemplate && promptTemplate.inputs.length > 0
-                        ? `${examples.length}E + ${promptTemplate.inputs.length}I`
-                        : examples.length > 0
-                          ? `${examples.length}E`
+                      {activeExamples.length > 0 && promptTemplate && promptTemplate.inputs.length > 0
+                        ? `${activeExamples.length}E + ${promptTemplate.inputs.length}I`
+                        : activeExamples.length > 0
+                          ? `${activeExamples.length}E`
                           : `${promptTemplate.inputs.length}I`}
                     </span>
                   )}
                 </Button>
+
+                {/* Batch run over a dataset */}
+                <Dialog open={isBatchRunnerOpen} onOpenChange={setIsBatchRunnerOpen}>
+                  <DialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      disabled={activeExamples.length === 0 && (!promptTemplate || promptTemplate.inputs.length === 0)}
+                      className="rounded-full h-12 px-4 ml-2 text-sm font-medium flex-shrink-0 shadow-sm transition-all duration-200 flex items-center gap-2"
+                      title="Run the examples and template over every row of a CSV or JSONL file"
+                    >
+                      {batch.isRunning ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Table className="h-4 w-4" />}
+                      <span>Batch</span>
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-5xl">
+                    <BatchRunner
+                      dataset={batch.dataset}
+                      mapping={batch.mapping}
+                      results={batch.results}
+                      isRunning={batch.isRunning}
+                      variableNames={templateVariables.map(variable => variable.name)}
+                      onLoadDataset={batch.loadDataset}
+                      onMappingChange={batch.setMapping}
+                      onRun={handleRunBatch}
+                      onStop={batch.stop}
+                      onClear={batch.clear}
+                    />
+                  </DialogContent>
+                </Dialog>
+
+                {/* Template variables, filled in before a run */}
+                <Dialog open={isTemplateVariablesFormOpen} onOpenChange={setIsTemplateVariablesFormOpen}>
+                  <DialogContent className="sm:max-w-lg">
+                    <TemplateVariablesForm
+                      variables={templateVariables}
+                      showErrorsOnOpen={templateErrorCount > 0}
+                      onSubmit={handleSubmitTemplateVariables}
+                      onCancel={() => setIsTemplateVariablesFormOpen(false)}
+                    />
+                  </DialogContent>
+                </Dialog>
               </div>
             </div>
           </div>
@@ -0,0 +1,130 @@
+import { memo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { FileText, Paperclip, X } from "lucide-react";
+import {
+  ATTACHMENT_ACCEPT,
+  Attachment,
+  attachmentDataUrl,
+  formatFileSize,
+  isImageAttachment,
+  readFilesAsAttachments
+} from "@/lib/attachments";
+
+interface AttachmentsProps {
+  attachments: Attachment[];
+  // Omit for a read-only list
+  onChange?: (attachments: Attachment[]) => void;
+  // Hand picked files to the parent instead of reading them here
+  onAddFiles?: (files: File[]) => void;
+  size?: 'sm' | 'md';
+}
+
+// Image preview, or a file card for PDFs and text files
+const AttachmentThumbnail = ({
+  attachment,
+  size,
+  onRemove
+}: {
+  attachment: Attachment;
+  size: 'sm' | 'md';
+  onRemove?: () => void;
+}) => {
+  const boxSize = size === 'sm' ? 'h-8' : 'h-14';
+  const title = `${attachment.name} (${formatFileSize(attachment.size)})`;
+
+  return (
+    <div className="relative group/attachment flex-shrink-0" title={title}>
+      {isImageAttachment(attachment) ? (
+        <img
+          src={attachmentDataUrl(attachment)}
+          alt={attachment.name}
+          className={`${boxSize} ${size === 'sm' ? 'w-8' : 'w-14'} object-cover rounded-md border border-border/40`}
+        />
+      ) : (
+        <div className={`${boxSize} ${size === 'sm' ? 'max-w-24' : 'max-w-36'} flex items-center gap-1.5 px-2 rounded-md border border-border/40 bg-muted/30 text-muted-foreground`}>
+          <FileText className={size === 'sm' ? 'h-3 w-3 flex-shrink-0' : 'h-4 w-4 flex-shrink-0'} />
+          <span className="text-[10px] truncate">{attachment.name}</span>
+        </div>
+      )}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-zinc-800 text-zinc-200 border border-zinc-700/50 flex items-center justify-center opacity-0 group-hover/attachment:opacity-100 transition-opacity"
+          title="Remove attachment"
+        >
+          <X className="h-2.5 w-2.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Thumbnails for a field's attachments, with an attach button when editable
+function AttachmentsComponent({ attachments, onChange, onAddFiles, size = 'md' }: AttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const addFiles = async (files: File[]) => {
+    if (!onChange || files.length === 0) return;
+    if (onAddFiles) {
+      onAddFiles(files);
+      return;
+    }
+    const result = await readFilesAsAttachments(files);
+    setErrors(result.errors);
+    if (result.attachments.length > 0) {
+      onChange([...attachments, ...result.attachments]);
+    }
+  };
+
+  if (!onChange && attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        {attachments.map(attachment => (
+          <AttachmentThumbnail
+            key={attachment.id}
+            attachment={attachment}
+            size={size}
+            onRemove={onChange ? () => onChange(attachments.filter(a => a.id !== attachment.id)) : undefined}
+          />
+        ))}
+        {onChange && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs gap-1 text-muted-foreground hover:text-foreground rounded-full"
+              onClick={() => fileInputRef.current?.click()}
+              title="Attach images, PDFs or text files"
+            >
+              <Paperclip className="h-3 w-3" />
+              Attach
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                // Allow picking the same file again
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+      </div>
+      {errors.map((error, i) => (
+        <div key={i} className="text-xs text-destructive">{error}</div>
+      ))}
+    </div>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders
+const Attachments = memo(AttachmentsComponent);
+
+export default Attachments;
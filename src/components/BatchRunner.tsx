@@ -0,0 +1,354 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Download, FileUp, Play, RefreshCw, RotateCcw, Square, X } from "lucide-react";
+import {
+  BatchColumnMapping,
+  BatchDataset,
+  BatchRowResult,
+  BatchRowStatus,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MESSAGE_TARGET,
+  autoMapColumns,
+  downloadTextFile,
+  parseDataset,
+  toCsv,
+  toJsonl,
+  toResultRecords
+} from "@/lib/batch";
+import { toPlaceholder } from "@/lib/template-variables";
+
+interface BatchRunnerProps {
+  dataset: BatchDataset | null;
+  mapping: BatchColumnMapping;
+  results: BatchRowResult[];
+  isRunning: boolean;
+  variableNames: string[]; // The template's variables, as column targets
+  onLoadDataset: (dataset: BatchDataset, mapping: BatchColumnMapping) => void;
+  onMappingChange: (mapping: BatchColumnMapping) => void;
+  onRun: (indices: number[], concurrency: number) => void;
+  onStop: () => void;
+  onClear: () => void;
+}
+
+type SortKey = 'index' | 'status' | 'output' | 'latency' | `column:${string}`;
+
+const STATUS_ORDER: Record<BatchRowStatus, number> = { error: 0, running: 1, pending: 2, done: 3 };
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  pending: 'text-muted-foreground bg-muted/40',
+  running: 'text-primary bg-primary/10',
+  done: 'text-green-500 bg-green-500/10',
+  error: 'text-destructive bg-destructive/10',
+};
+
+// Longest cell text shown in the table - the full text is in the cell's tooltip and the export
+const MAX_CELL_CHARS = 200;
+
+const truncate = (text: string) => text.length > MAX_CELL_CHARS ? `${text.substring(0, MAX_CELL_CHARS)}...` : text;
+
+// Import a dataset, map its columns, run every row through the examples and template, and export the results.
+// Rendered inside a DialogContent; the run itself lives in the app, so it continues while the dialog is closed.
+function BatchRunner({
+  dataset,
+  mapping,
+  results,
+  isRunning,
+  variableNames,
+  onLoadDataset,
+  onMappingChange,
+  onRun,
+  onStop,
+  onClear
+}: BatchRunnerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [concurrencyText, setConcurrencyText] = useState(String(DEFAULT_BATCH_CONCURRENCY));
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'index', descending: false });
+
+  const concurrency = Number(concurrencyText);
+  const concurrencyError = !Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY
+    ? `1 to ${MAX_BATCH_CONCURRENCY}`
+    : null;
+
+  const importFile = async (file: File) => {
+    try {
+      const parsed = parseDataset(file.name, await file.text());
+      setImportError(null);
+      onLoadDataset(parsed, autoMapColumns(parsed.columns, variableNames));
+    } catch (error) {
+      setImportError(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const counts = useMemo(() => {
+    const result: Record<BatchRowStatus, number> = { pending: 0, running: 0, done: 0, error: 0 };
+    results.forEach(row => result[row.status]++);
+    return result;
+  }, [results]);
+
+  const failedIndices = results.flatMap((row, index) => row.status === 'error' ? [index] : []);
+  const mappedColumns = dataset ? dataset.columns.filter(column => mapping[column]) : [];
+  const tableColumns = mappedColumns.length > 0 ? mappedColumns : (dataset?.columns.slice(0, 2) ?? []);
+  const unmappedVariables = variableNames.filter(name => !Object.values(mapping).includes(name));
+
+  const sortedIndices = useMemo(() => {
+    if (!dataset) return [];
+    const value = (index: number): string | number => {
+      const result = results[index];
+      if (sort.key === 'index') return index;
+      if (sort.key === 'status') return STATUS_ORDER[result?.status ?? 'pending'];
+      if (sort.key === 'output') return result?.output ?? result?.error ?? "";
+      if (sort.key === 'latency') return result?.latencyMs ?? -1;
+      return dataset.rows[index][sort.key.slice('column:'.length)] ?? "";
+    };
+    const indices = dataset.rows.map((_, index) => index);
+    indices.sort((a, b) => {
+      const [first, second] = [value(a), value(b)];
+      const order = typeof first === 'number' && typeof second === 'number'
+        ? first - second
+        : String(first).localeCompare(String(second), undefined, { numeric: true });
+      return (sort.descending ? -order : order) || a - b;
+    });
+    return indices;
+  }, [dataset, results, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  const exportResults = (format: 'csv' | 'jsonl') => {
+    if (!dataset) return;
+    const records = toResultRecords(dataset, results);
+    const baseName = dataset.fileName.replace(/\.[^.]+$/, '') || 'batch';
+    if (format === 'csv') {
+      downloadTextFile(`${baseName}-results.csv`, toCsv(records), 'text/csv');
+    } else {
+      downloadTextFile(`${baseName}-results.jsonl`, toJsonl(records), 'application/x-ndjson');
+    }
+  };
+
+  const renderHeader = (sortKey: SortKey, label: string, className = '') => (
+    <th key={sortKey} className={`px-2 py-1.5 font-medium text-left ${className}`}>
+      <button className="flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(sortKey)}>
+        <span className="truncate">{label}</span>
+        {sort.key === sortKey && (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Batch Run</DialogTitle>
+        <DialogDescription>
+          Send every row of a CSV or JSONL file through the examples and template. Map columns to template variables or to the user message.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 min-w-0">
+        {/* Import */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs gap-1.5"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+          >
+            <FileUp className="h-3.5 w-3.5" />
+            {dataset ? 'Import another file' : 'Import CSV or JSONL'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              // Allow picking the same file again
+              e.target.value = '';
+            }}
+          />
+          {dataset && (
+            <>
+              <span className="text-xs text-muted-foreground">
+                {dataset.fileName} · {dataset.rows.length} row{dataset.rows.length === 1 ? '' : 's'} · {dataset.columns.length} column{dataset.columns.length === 1 ? '' : 's'}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                onClick={onClear}
+                title="Remove the dataset and its results"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          )}
+        </div>
+        {importError && <div className="text-xs text-destructive">{importError}</div>}
+
+        {dataset && (
+          <>
+            {/* Column mapping */}
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Columns</div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1.5">
+                {dataset.columns.map(column => (
+                  <label key={column} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate font-mono" title={column}>{column}</span>
+                    <select
+                      value={mapping[column] ?? ''}
+                      onChange={(e) => onMappingChange({ ...mapping, [column]: e.target.value })}
+                      disabled={isRunning}
+                      className="h-7 w-44 rounded-md border border-border/40 bg-background px-1 text-xs text-foreground focus:outline-none"
+                    >
+                      <option value="">Ignore</option>
+                      <option value={MESSAGE_TARGET}>User message</option>
+                      {variableNames.map(name => (
+                        <option key={name} value={name}>{toPlaceholder(name)}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              {mappedColumns.length === 0 ? (
+                <div className="text-xs text-amber-500">No column is mapped - every row would send the same request.</div>
+              ) : unmappedVariables.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  {unmappedVariables.map(toPlaceholder).join(', ')} keep{unmappedVariables.length === 1 ? 's' : ''} the value saved in the template.
+                </div>
+              )}
+            </div>
+
+            {/* Run controls */}
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                Parallel requests
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_BATCH_CONCURRENCY}
+                  value={concurrencyText}
+                  onChange={(e) => setConcurrencyText(e.target.value)}
+                  disabled={isRunning}
+                  aria-invalid={!!concurrencyError}
+                  className={`h-7 w-16 text-xs ${concurrencyError ? 'border-destructive' : ''}`}
+                  title={concurrencyError ?? undefined}
+                />
+              </label>
+              {isRunning ? (
+                <Button size="sm" variant="secondary" className="h-8 text-xs gap-1.5" onClick={onStop}>
+                  <Square className="h-3 w-3 fill-current" />
+                  Stop
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    size="sm"
+                    className="h-8 text-xs gap-1.5"
+                    onClick={() => onRun(dataset.rows.map((_, index) => index), concurrency)}
+                    disabled={!!concurrencyError}
+                  >
+                    <Play className="h-3 w-3" />
+                    Run all {dataset.rows.length}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 text-xs gap-1.5"
+                    onClick={() => onRun(failedIndices, concurrency)}
+                    disabled={!!concurrencyError || failedIndices.length === 0}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Re-run failed{failedIndices.length > 0 ? ` ${failedIndices.length}` : ''}
+                  </Button>
+                </>
+              )}
+              <div className="ml-auto flex items-center gap-1">
+                {(['csv', 'jsonl'] as const).map(format => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 text-xs gap-1.5 text-muted-foreground hover:text-foreground"
+                    onClick={() => exportResults(format)}
+                    disabled={counts.done + counts.error === 0}
+                  >
+                    <Download className="h-3 w-3" />
+                    {format.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Progress */}
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              {isRunning && <RefreshCw className="h-3 w-3 animate-spin" />}
+              <span>{counts.done} of {dataset.rows.length} done</span>
+              {counts.running > 0 && <span>{counts.running} running</span>}
+              {counts.error > 0 && <span className="text-destructive">{counts.error} failed</span>}
+            </div>
+
+            {/* Results */}
+            <div className="max-h-[45vh] overflow-auto rounded-lg border border-border/40 scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent">
+              <table className="w-full text-xs table-fixed">
+                <thead className="sticky top-0 bg-background text-muted-foreground border-b border-border/40">
+                  <tr>
+                    {renderHeader('index', '#', 'w-12')}
+                    {tableColumns.map(column => renderHeader(`column:${column}`, column))}
+                    {renderHeader('status', 'Status', 'w-24')}
+                    {renderHeader('output', 'Output', 'w-[40%]')}
+                    {renderHeader('latency', 'Time', 'w-16')}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedIndices.map(index => {
+                    const result = results[index];
+                    const status = result?.status ?? 'pending';
+                    const detail = status === 'error' ? result?.error : result?.output;
+                    return (
+                      <tr key={index} className="border-b border-border/20 last:border-0 align-top">
+                        <td className="px-2 py-1.5 text-muted-foreground">{index + 1}</td>
+                        {tableColumns.map(column => (
+                          <td key={column} className="px-2 py-1.5 break-words" title={dataset.rows[index][column]}>
+                            {truncate(dataset.rows[index][column] ?? '')}
+                          </td>
+                        ))}
+                        <td className="px-2 py-1.5">
+                          <span className={`rounded-md px-1.5 py-0.5 ${STATUS_STYLES[status]}`}>{status}</span>
+                          {status === 'running' && result?.error && (
+                            <div className="mt-1 text-[10px] text-amber-500">{result.error}</div>
+                          )}
+                        </td>
+                        <td
+                          className={`px-2 py-1.5 whitespace-pre-wrap break-words ${status === 'error' ? 'text-destructive' : ''}`}
+                          title={detail}
+                        >
+                          {truncate(detail ?? '')}
+                        </td>
+                        <td className="px-2 py-1.5 text-muted-foreground">
+                          {result?.latencyMs !== undefined ? `${(result.latencyMs / 1000).toFixed(1)}s` : ''}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default BatchRunner;
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PlusCircle, Trash2, X } from "lucide-react";
+import {
+  BUILT_IN_EXAMPLE_SCHEMAS,
+  ExampleSchema,
+  createExampleSchema,
+  createSchemaField,
+  validateExampleSchema
+} from "@/lib/example-schemas";
+
+interface ExampleSchemaEditorProps {
+  schemas: ExampleSchema[]; // The project's own schemas, without the built-in ones
+  usageCounts: Record<string, number>; // Examples using each schema
+  onSave: (schemas: ExampleSchema[]) => void;
+  onCancel: () => void;
+}
+
+// Form for the project's example types and their fields.
+// Rendered inside a DialogContent; edits stay local until saved.
+function ExampleSchemaEditor({
+  schemas,
+  usageCounts,
+  onSave,
+  onCancel
+}: ExampleSchemaEditorProps) {
+  const [tempSchemas, setTempSchemas] = useState(schemas);
+
+  const errors = Object.fromEntries(tempSchemas.map(schema => [schema.id, validateExampleSchema(schema)]));
+  const hasErrors = Object.values(errors).some(error => error !== null);
+
+  const updateSchema = (schemaId: string, update: (schema: ExampleSchema) => ExampleSchema) => {
+    setTempSchemas(prev => prev.map(schema => schema.id === schemaId ? update(schema) : schema));
+  };
+
+  const updateFieldLabel = (schemaId: string, fieldId: string, label: string) => {
+    updateSchema(schemaId, schema => ({
+      ...schema,
+      fields: schema.fields.map(field => field.id === fieldId ? { ...field, label } : field)
+    }));
+  };
+
+  const removeField = (schemaId: string, fieldId: string) => {
+    updateSchema(schemaId, schema => ({
+      ...schema,
+      fields: schema.fields.filter(field => field.id !== fieldId)
+    }));
+  };
+
+  const addField = (schemaId: string) => {
+    updateSchema(schemaId, schema => ({
+      ...schema,
+      fields: [...schema.fields, createSchemaField(`Field ${schema.fields.length + 1}`)]
+    }));
+  };
+
+  const addSchema = () => {
+    setTempSchemas(prev => [...prev, createExampleSchema(`Type ${prev.length + 1}`, ['Input', 'Output'])]);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Example Types</DialogTitle>
+        <DialogDescription>
+          The fields each kind of example has, e.g. Question / Context / Answer. Field labels are sent with the examples.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-3 max-h-[60vh] overflow-y-auto scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent pr-1">
+        {/* Built-in types, read only */}
+        {BUILT_IN_EXAMPLE_SCHEMAS.map(schema => (
+          <div key={schema.id} className="flex items-center justify-between text-sm rounded-lg border border-border/30 px-3 py-2">
+            <span className="font-medium">{schema.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {schema.fields.map(field => field.label).join(' / ')} · built in
+            </span>
+          </div>
+        ))}
+
+        {tempSchemas.map(schema => {
+          const usageCount = usageCounts[schema.id] || 0;
+          return (
+            <div key={schema.id} className="rounded-lg border border-border/40 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={schema.name}
+                  onChange={(e) => updateSchema(schema.id, prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Type name"
+                  className="h-8 text-sm font-medium"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => setTempSchemas(prev => prev.filter(s => s.id !== schema.id))}
+                  disabled={usageCount > 0}
+                  title={usageCount > 0
+                    ? `Used by ${usageCount} example${usageCount === 1 ? '' : 's'} - change their type first`
+                    : 'Delete this type'}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+
+              <div className="space-y-1.5 pl-3 border-l-2 border-border/40">
+                {schema.fields.map(field => (
+                  <div key={field.id} className="flex items-center gap-2">
+                    <Input
+                      value={field.label}
+                      onChange={(e) => updateFieldLabel(schema.id, field.id, e.target.value)}
+                      placeholder="Field label"
+                      className="h-7 text-xs"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => removeField(schema.id, field.id)}
+                      disabled={schema.fields.length <= 1}
+                      title="Remove this field"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs gap-1 text-muted-foreground hover:text-foreground"
+                  onClick={() => addField(schema.id)}
+                >
+                  <PlusCircle className="h-3 w-3" />
+                  Add field
+                </Button>
+              </div>
+
+              {errors[schema.id] && (
+                <div className="text-xs text-destructive">{errors[schema.id]}</div>
+              )}
+            </div>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full h-8 text-xs gap-1.5"
+          onClick={addSchema}
+        >
+          <PlusCircle className="h-3.5 w-3.5" />
+          New example type
+        </Button>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onSave(tempSchemas)} disabled={hasErrors}>Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default ExampleSchemaEditor;
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DEFAULT_EXAMPLE_SELECTION,
+  ExampleSelectionMode,
+  ExampleSelectionSettings,
+  MAX_TOP_K,
+  RETRIEVAL_BACKENDS
+} from "@/lib/example-retrieval";
+
+interface ExampleSelectionEditorProps {
+  settings: ExampleSelectionSettings;
+  providerName: string;
+  defaultEmbeddingModel?: string; // Undefined when the provider has no embeddings endpoint
+  onSave: (settings: ExampleSelectionSettings) => void;
+  onCancel: () => void;
+}
+
+// Form for which of the active examples are sent with each request.
+// Rendered inside a DialogContent; edits stay local until saved.
+function ExampleSelectionEditor({
+  settings,
+  providerName,
+  defaultEmbeddingModel,
+  onSave,
+  onCancel
+}: ExampleSelectionEditorProps) {
+  const [tempSettings, setTempSettings] = useState(settings);
+  const [topKText, setTopKText] = useState(String(settings.topK));
+
+  const topK = Number(topKText);
+  const topKError = !Number.isInteger(topK) || topK < 1 || topK > MAX_TOP_K
+    ? `Enter a whole number from 1 to ${MAX_TOP_K}`
+    : null;
+  const isRetrieval = tempSettings.mode === 'retrieval';
+  const embeddingsUnsupported = isRetrieval && tempSettings.backend === 'embeddings' && !defaultEmbeddingModel;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Example Selection</DialogTitle>
+        <DialogDescription>
+          Send every active example, or only the ones most similar to the current message.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <Tabs
+          value={tempSettings.mode}
+          onValueChange={(value) => setTempSettings(prev => ({ ...prev, mode: value as ExampleSelectionMode }))}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All active</TabsTrigger>
+            <TabsTrigger value="retrieval">Most similar</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isRetrieval && (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium">Examples per request</div>
+                <div className="text-xs text-muted-foreground">The top k by similarity, sent in library order</div>
+              </div>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_TOP_K}
+                value={topKText}
+                onChange={(e) => setTopKText(e.target.value)}
+                className="h-8 w-24 text-sm"
+              />
+            </div>
+            {topKError && <div className="text-xs text-destructive">{topKError}</div>}
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Similarity</div>
+              {RETRIEVAL_BACKENDS.map(backend => (
+                <label key={backend.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="retrieval-backend"
+                    checked={tempSettings.backend === backend.value}
+                    onChange={() => setTempSettings(prev => ({ ...prev, backend: backend.value }))}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium">{backend.label}</span>
+                    <span className="block text-xs text-muted-foreground">{backend.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {tempSettings.backend === 'embeddings' && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-sm font-medium">Embedding model</div>
+                <Input
+                  value={tempSettings.embeddingModel}
+                  onChange={(e) => setTempSettings(prev => ({ ...prev, embeddingModel: e.target.value }))}
+                  placeholder={defaultEmbeddingModel || 'Not available'}
+                  disabled={!defaultEmbeddingModel}
+                  className="h-8 w-60 text-sm"
+                />
+              </div>
+            )}
+
+            {embeddingsUnsupported && (
+              <div className="text-xs text-amber-500">
+                {providerName} has no embeddings endpoint - use BM25 or switch provider.
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          className="mr-auto text-muted-foreground"
+          onClick={() => {
+            setTempSettings(DEFAULT_EXAMPLE_SELECTION);
+            setTopKText(String(DEFAULT_EXAMPLE_SELECTION.topK));
+          }}
+        >
+          Reset to defaults
+        </Button>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button
+          onClick={() => onSave({ ...tempSettings, topK: topKError ? settings.topK : topK, embeddingModel: tempSettings.embeddingModel.trim() })}
+          disabled={isRetrieval && !!topKError}
+        >
+          Save
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default ExampleSelectionEditor;
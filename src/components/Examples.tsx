@@ -1,7 +1,24 @@
-import { memo } from 'react';
+import { memo, useMemo, useState } from 'react';
 import { Button } from "@/components/ui/button";
-import { PlusCircle, X, Check, ChevronDown } from "lucide-react";
+import { PlusCircle, X, Check, ChevronDown, Settings2, Search } from "lucide-react";
 import { EditableText } from "@/components/ui/editable-text";
+import {
+  Dialog,
+  DialogContent,
+} from "@/components/ui/dialog";
+import Attachments from "@/components/Attachments";
+import ExampleSchemaEditor from "@/components/ExampleSchemaEditor";
+import ExampleSelectionEditor from "@/components/ExampleSelectionEditor";
+import type { Attachment } from "@/lib/attachments";
+import { EXAMPLE_SERIALIZATIONS, ExampleSerialization } from "@/lib/example-serialization";
+import { ExampleSelectionSettings, RETRIEVAL_BACKENDS } from "@/lib/example-retrieval";
+import {
+  DEFAULT_EXAMPLE_SCHEMA_ID,
+  ExampleSchema,
+  ExampleSchemaField,
+  findExampleSchema,
+  getExampleSchemas
+} from "@/lib/example-schemas";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -10,19 +27,36 @@ import {
 } from "@/components/ui/dropdown-menu";
 
 // Define Example types
-export type ExampleType = 'input-output' | 'name-content';
-
 export type Example = {
-  type: ExampleType;
-  firstField: string;
-  secondField: string;
   id: string;
+  schemaId: string; // The example schema that defines its fields
+  fields: Record<string, string>; // Text of each field, keyed by schema field id
+  attachments?: Record<string, Attachment[]>; // Files sent alongside each field's text, keyed the same way
 };
 
-// Define labels for different example types
-export const exampleTypeLabels: Record<ExampleType, { first: string, second: string }> = {
-  'input-output': { first: 'Input', second: 'Output' },
-  'name-content': { first: 'Name', second: 'Content' },
+// One field of an example, in schema order
+export type ExampleFieldValue = ExampleSchemaField & {
+  value: string;
+  attachments: Attachment[];
+};
+
+export const getExampleFields = (example: Example, schema: ExampleSchema): ExampleFieldValue[] =>
+  schema.fields.map(field => ({
+    ...field,
+    value: example.fields[field.id] ?? "",
+    attachments: example.attachments?.[field.id] ?? []
+  }));
+
+// Examples saved before schemas existed had a fixed `type` with `firstField` / `secondField`,
+// which map onto the built-in schemas' 'first' and 'second' fields
+export const normalizeExample = (example: any): Example => {
+  if (example.schemaId && example.fields) return example;
+  const { type, firstField, secondField, ...rest } = example;
+  return {
+    ...rest,
+    schemaId: type || DEFAULT_EXAMPLE_SCHEMA_ID,
+    fields: { first: firstField ?? "", second: secondField ?? "" }
+  };
 };
 
 interface ExamplesProps {
@@ -32,6 +66,14 @@ interface ExamplesProps {
   setActiveExampleIds: React.Dispatch<React.SetStateAction<string[]>>;
   showExampleManager: boolean;
   setShowExampleManager: React.Dispatch<React.SetStateAction<boolean>>;
+  serialization: ExampleSerialization;
+  onSerializationChange: (serialization: ExampleSerialization) => void;
+  customSchemas: ExampleSchema[];
+  onCustomSchemasChange: (schemas: ExampleSchema[]) => void;
+  selectionSettings: ExampleSelectionSettings;
+  onSelectionSettingsChange: (settings: ExampleSelectionSettings) => void;
+  providerName: string;
+  defaultEmbeddingModel?: string; // Undefined when the provider has no embeddings endpoint
 }
 
 // The component implementation
@@ -41,8 +83,29 @@ function ExamplesComponent({
   activeExampleIds, 
   setActiveExampleIds,
   showExampleManager,
-  setShowExampleManager
+  setShowExampleManager,
+  serialization,
+  onSerializationChange,
+  customSchemas,
+  onCustomSchemasChange,
+  selectionSettings,
+  onSelectionSettingsChange,
+  providerName,
+  defaultEmbeddingModel
 }: ExamplesProps) {
+  const [isSchemaEditorOpen, setIsSchemaEditorOpen] = useState(false);
+  const [isSelectionEditorOpen, setIsSelectionEditorOpen] = useState(false);
+  const schemas = useMemo(() => getExampleSchemas(customSchemas), [customSchemas]);
+
+  // How many examples use each schema - schemas in use can't be deleted
+  const schemaUsageCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    examples.forEach(example => {
+      counts[example.schemaId] = (counts[example.schemaId] || 0) + 1;
+    });
+    return counts;
+  }, [examples]);
+
   // Toggle example selection
   const toggleExampleSelection = (exampleId: string) => {
     setActiveExampleIds(prev => {
@@ -54,9 +117,11 @@ function ExamplesComponent({
     });
   };
 
+  const areAllExamplesActive = examples.every(ex => activeExampleIds.includes(ex.id));
+
   // Toggle all examples
   const toggleAllExamples = () => {
-    if (activeExampleIds.length === examples.length) {
+    if (areAllExamplesActive) {
       // If all examples are selected, deselect all
       setActiveExampleIds([]);
     } else {
@@ -66,12 +131,11 @@ function ExamplesComponent({
   };
 
   // Add a new example
-  const addNewExample = (type: ExampleType) => {
+  const addNewExample = (schemaId: string) => {
     const newExampleId = `example-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
     const newExample: Example = {
-      type,
-      firstField: "",
-      secondField: "",
+      schemaId,
+      fields: {},
       id: newExampleId
     };
     setExamples([...examples, newExample]);
@@ -80,56 +144,181 @@ function ExamplesComponent({
     setActiveExampleIds(prev => [...prev, newExampleId]);
   };
 
-  // Change example type
-  const changeExampleType = (index: number, type: ExampleType) => {
+  // Change example type - field values carry over by position
+  const changeExampleType = (index: number, schemaId: string) => {
+    const example = examples[index];
+    const oldFields = getExampleFields(example, findExampleSchema(schemas, example.schemaId));
+    const newSchema = findExampleSchema(schemas, schemaId);
+    const updatedExamples = [...examples];
+    updatedExamples[index] = {
+      ...example,
+      schemaId,
+      fields: Object.fromEntries(newSchema.fields.map((field, i) => [field.id, oldFields[i]?.value ?? ""])),
+      attachments: Object.fromEntries(newSchema.fields
+        .map((field, i) => [field.id, oldFields[i]?.attachments ?? []] as const)
+        .filter(([, attachments]) => attachments.length > 0))
+    };
+    setExamples(updatedExamples);
+  };
+
+  // Replace the text of one field
+  const updateField = (index: number, fieldId: string, value: string) => {
+    const updatedExamples = [...examples];
+    updatedExamples[index] = {
+      ...updatedExamples[index],
+      fields: { ...updatedExamples[index].fields, [fieldId]: value }
+    };
+    setExamples(updatedExamples);
+  };
+
+  // Replace the attachments of one field
+  const updateAttachments = (index: number, field: string, attachments: Attachment[]) => {
     const updatedExamples = [...examples];
     updatedExamples[index] = {
       ...updatedExamples[index],
-      type
+      attachments: { ...updatedExamples[index].attachments, [field]: attachments }
     };
     setExamples(updatedExamples);
   };
 
   // Remove example
   const removeExample = (index: number) => {
+    const removedId = examples[index].id;
     setExamples(examples.filter((_, i) => i !== index));
+    setActiveExampleIds(prev => prev.filter(id => id !== removedId));
   };
 
   return (
     <section className="mb-6" id="examples">
       <div className="flex justify-between items-center mb-5">
+        {/* How the examples are laid out in the request */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 flex items-center gap-1 px-3 text-xs font-normal rounded-full bg-muted/50 hover:bg-muted/80 transition-colors"
+              title="How examples are sent to the model"
+            >
+              {EXAMPLE_SERIALIZATIONS.find(option => option.value === serialization)?.label}
+              <ChevronDown className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64 rounded-xl shadow-lg p-1 border-border/30">
+            {EXAMPLE_SERIALIZATIONS.map(option => (
+              <DropdownMenuItem
+                key={option.value}
+                onClick={() => onSerializationChange(option.value)}
+                className={`cursor-pointer rounded-lg py-2 flex flex-col items-start gap-0.5 ${option.value === serialization ? 'bg-primary/5' : ''}`}
+              >
+                <span className={option.value === serialization ? 'font-medium' : ''}>{option.label}</span>
+                <span className="text-[10px] text-muted-foreground">{option.description}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* Which active examples are sent */}
+        <Dialog open={isSelectionEditorOpen} onOpenChange={setIsSelectionEditorOpen}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 flex items-center gap-1 px-3 ml-2 text-xs font-normal rounded-full bg-muted/50 hover:bg-muted/80 transition-colors"
+            onClick={() => setIsSelectionEditorOpen(true)}
+            title="Which examples are sent with each request"
+          >
+            {selectionSettings.mode === 'retrieval' && <Search className="h-3 w-3" />}
+            {selectionSettings.mode === 'retrieval'
+              ? `Top ${selectionSettings.topK} · ${RETRIEVAL_BACKENDS.find(backend => backend.value === selectionSettings.backend)?.label}`
+              : 'All active'}
+          </Button>
+          <DialogContent className="sm:max-w-md">
+            <ExampleSelectionEditor
+              settings={selectionSettings}
+              providerName={providerName}
+              defaultEmbeddingModel={defaultEmbeddingModel}
+              onSave={(settings) => {
+                onSelectionSettingsChange(settings);
+                setIsSelectionEditorOpen(false);
+              }}
+              onCancel={() => setIsSelectionEditorOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+
+        {examples.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-3 text-xs font-normal text-muted-foreground hover:text-foreground rounded-full ml-auto mr-2"
+            onClick={toggleAllExamples}
+            title="Include or leave out all examples"
+          >
+            {areAllExamplesActive ? "Deselect all" : "Select all"}
+          </Button>
+        )}
+
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
-            <Button variant="outline" size="sm" className="flex items-center gap-1.5 rounded-full h-8 px-4 text-sm font-medium bg-primary/10 text-primary-foreground/90 border-primary-foreground/20 hover:bg-primary/20 transition-colors ml-auto">
+            <Button variant="outline" size="sm" className={`flex items-center gap-1.5 rounded-full h-8 px-4 text-sm font-medium bg-primary/10 text-primary-foreground/90 border-primary-foreground/20 hover:bg-primary/20 transition-colors ${examples.length > 0 ? '' : 'ml-auto'}`}>
               <PlusCircle className="h-3.5 w-3.5" />
               Add Example
             </Button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-40 rounded-xl shadow-lg p-1 border-border/30">
-            <DropdownMenuItem 
-              onClick={() => addNewExample('input-output')}
-              className="cursor-pointer rounded-lg py-2 transition-colors"
-            >
-              Input-Output
-            </DropdownMenuItem>
+          <DropdownMenuContent align="end" className="w-48 rounded-xl shadow-lg p-1 border-border/30">
+            {schemas.map(schema => (
+              <DropdownMenuItem 
+                key={schema.id}
+                onClick={() => addNewExample(schema.id)}
+                className="cursor-pointer rounded-lg py-2 transition-colors"
+              >
+                {schema.name}
+              </DropdownMenuItem>
+            ))}
             <DropdownMenuItem 
-              onClick={() => addNewExample('name-content')}
-              className="cursor-pointer rounded-lg py-2 transition-colors"
+              onClick={() => setIsSchemaEditorOpen(true)}
+              className="cursor-pointer rounded-lg py-2 transition-colors text-muted-foreground border-t border-border/30 mt-1"
             >
-              Name-Content
+              <Settings2 className="h-3.5 w-3.5" />
+              Manage types...
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      {/* Example types editor */}
+      <Dialog open={isSchemaEditorOpen} onOpenChange={setIsSchemaEditorOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <ExampleSchemaEditor
+            schemas={customSchemas}
+            usageCounts={schemaUsageCounts}
+            onSave={(updatedSchemas) => {
+              onCustomSchemasChange(updatedSchemas);
+              setIsSchemaEditorOpen(false);
+            }}
+            onCancel={() => setIsSchemaEditorOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
       
       {/* Example list */}
       <div className="space-y-5 mb-6">
         {examples.map((example, index) => {
-          const labels = exampleTypeLabels[example.type];
+          const schema = findExampleSchema(schemas, example.schemaId);
+          const fields = getExampleFields(example, schema);
+          const isActive = activeExampleIds.includes(example.id);
           return (
-            <div key={index} className="border rounded-xl p-5 bg-card text-card-foreground shadow-sm hover:shadow-md transition-all duration-200">
+            <div key={index} className={`border rounded-xl p-5 bg-card text-card-foreground shadow-sm hover:shadow-md transition-all duration-200 ${isActive ? '' : 'opacity-60'}`}>
               <div className="flex justify-between mb-4">
                 <div className="font-medium text-sm text-muted-foreground flex items-center">
+                  {/* Whether the example is sent */}
+                  <input
+                    type="checkbox"
+                    checked={isActive}
+                    onChange={() => toggleExampleSelection(example.id)}
+                    className="mr-2 h-3.5 w-3.5 cursor-pointer accent-primary"
+                    title={isActive ? "Sent to the AI - uncheck to leave it out" : "Left out - check to send it to the AI"}
+                  />
                   <span className="bg-muted/50 text-muted-foreground py-1 px-3 rounded-full text-xs font-semibold">Example {index + 1}</span>
                   <div className="ml-2">
                     <DropdownMenu>
@@ -139,23 +328,20 @@ function ExamplesComponent({
                           size="sm" 
                           className="h-7 flex items-center gap-1 px-2.5 text-xs font-normal rounded-full bg-muted/50 hover:bg-muted/80 transition-colors"
                         >
-                          {example.type === 'input-output' ? 'Input-Output' : 'Name-Content'}
+                          {schema.name}
                           <ChevronDown className="h-3 w-3" />
                         </Button>
                       </DropdownMenuTrigger>
-                      <DropdownMenuContent align="start" className="w-32 rounded-xl shadow-lg">
-                        <DropdownMenuItem 
-                          onClick={() => changeExampleType(index, 'input-output')}
-                          className={`cursor-pointer rounded-lg ${example.type === 'input-output' ? 'font-medium' : ''}`}
-                        >
-                          Input-Output
-                        </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          onClick={() => changeExampleType(index, 'name-content')}
-                          className={`cursor-pointer rounded-lg ${example.type === 'name-content' ? 'font-medium' : ''}`}
-                        >
-                          Name-Content
-                        </DropdownMenuItem>
+                      <DropdownMenuContent align="start" className="w-40 rounded-xl shadow-lg">
+                        {schemas.map(option => (
+                          <DropdownMenuItem 
+                            key={option.id}
+                            onClick={() => changeExampleType(index, option.id)}
+                            className={`cursor-pointer rounded-lg ${option.id === schema.id ? 'font-medium' : ''}`}
+                          >
+                            {option.name}
+                          </DropdownMenuItem>
+                        ))}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -172,30 +358,21 @@ function ExamplesComponent({
               </div>
               <div className="border border-border/30 p-3 rounded-lg bg-card/50">
                 <div className="text-sm">
-                  {/* First field with label */}
-                  <EditableText
-                    value={example.firstField}
-                    onChange={(newValue) => {
-                      const updatedExamples = [...examples];
-                      updatedExamples[index].firstField = newValue;
-                      setExamples(updatedExamples);
-                    }}
-                    label={labels.first}
-                    placeholder="Click to add content..."
-                    className="mb-5"
-                  />
-                  
-                  {/* Second field with label */}
-                  <EditableText
-                    value={example.secondField}
-                    onChange={(newValue) => {
-                      const updatedExamples = [...examples];
-                      updatedExamples[index].secondField = newValue;
-                      setExamples(updatedExamples);
-                    }}
-                    label={labels.second}
-                    placeholder="Click to add content..."
-                  />
+                  {/* Each field with its label */}
+                  {fields.map(field => (
+                    <div key={field.id} className="mb-5 last:mb-0">
+                      <EditableText
+                        value={field.value}
+                        onChange={(newValue) => updateField(index, field.id, newValue)}
+                        label={field.label}
+                        placeholder="Click to add content..."
+                      />
+                      <Attachments
+                        attachments={field.attachments}
+                        onChange={(attachments) => updateAttachments(index, field.id, attachments)}
+                      />
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -215,7 +392,7 @@ function ExamplesComponent({
                 className="h-7 px-2 text-xs rounded-md"
                 onClick={toggleAllExamples}
               >
-                {activeExampleIds.length === examples.length ? "Deselect All" : "Select All"}
+                {areAllExamplesActive ? "Deselect All" : "Select All"}
               </Button>
             </div>
           </div>
@@ -229,7 +406,7 @@ function ExamplesComponent({
                 className="h-7 px-3 text-xs rounded-md"
                 onClick={() => {
                   // Create a default example if none exist
-                  addNewExample('input-output');
+                  addNewExample(DEFAULT_EXAMPLE_SCHEMA_ID);
                   // Scroll to examples section
                   document.getElementById('examples')?.scrollIntoView({ behavior: 'smooth' });
                 }}
@@ -241,7 +418,7 @@ function ExamplesComponent({
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 max-h-[200px] overflow-y-auto pr-1">
               {examples.map((example, index) => {
                 const isActive = activeExampleIds.includes(example.id);
-                const labels = exampleTypeLabels[example.type];
+                const [firstField] = getExampleFields(example, findExampleSchema(schemas, example.schemaId));
                 
                 return (
                   <div 
@@ -258,8 +435,8 @@ function ExamplesComponent({
                       <div className={`h-3 w-3 rounded-full ${isActive ? 'bg-primary' : 'bg-muted-foreground/30'}`}></div>
                     </div>
                     <div className="line-clamp-1 text-muted-foreground">
-                      {labels.first}: {example.firstField.substring(0, 30)}
-                      {example.firstField.length > 30 && '...'}
+                      {firstField?.label}: {firstField?.value.substring(0, 30)}
+                      {firstField && firstField.value.length > 30 && '...'}
                     </div>
                   </div>
                 );
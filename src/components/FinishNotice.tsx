@@ -0,0 +1,82 @@
+import { memo } from 'react';
+import { AlertTriangle, ShieldAlert, StepForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { FinishDetails, FinishReason, SafetyRating } from "@/lib/providers";
+
+// Headline shown for each way a response can end early
+const FINISH_TITLES: Record<Exclude<FinishReason, 'stop'>, string> = {
+  max_tokens: 'Response cut off at the output token limit',
+  safety: 'Response stopped by safety filters',
+  recitation: 'Response stopped for reciting source material',
+  blocked: 'Prompt blocked before a response was generated',
+  other: 'Response ended early',
+};
+
+// Ratings worth showing - the ones that blocked the response or were flagged above low
+const isNotableRating = (rating: SafetyRating) =>
+  rating.blocked || (rating.probability !== 'NEGLIGIBLE' && rating.probability !== 'LOW');
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const formatCategory = (category: string) =>
+  category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+interface FinishNoticeProps {
+  finish: FinishDetails;
+  onContinue?: () => void;
+  disabled?: boolean;
+}
+
+// Structured notice for a reply that didn't finish normally
+function FinishNoticeComponent({ finish, onContinue, disabled }: FinishNoticeProps) {
+  if (finish.reason === 'stop') return null;
+
+  const isSafety = finish.reason === 'safety' || finish.reason === 'blocked';
+  const notableRatings = (finish.safetyRatings || []).filter(isNotableRating);
+  const Icon = isSafety ? ShieldAlert : AlertTriangle;
+
+  return (
+    <div className={`mb-2 text-xs flex flex-col gap-1 ${isSafety ? 'text-destructive' : 'text-amber-500'}`}>
+      <div className="flex items-center gap-1 font-medium">
+        <Icon className="h-[12px] w-[12px] flex-shrink-0" />
+        <span>{FINISH_TITLES[finish.reason]}</span>
+        <span className="font-mono font-normal opacity-70">({finish.providerReason})</span>
+      </div>
+
+      {notableRatings.length > 0 && (
+        <div className="flex flex-wrap gap-1 pl-4">
+          {notableRatings.map(rating => (
+            <span
+              key={rating.category}
+              className="px-1.5 py-0.5 rounded bg-muted/40 text-muted-foreground"
+              title={rating.category}
+            >
+              {formatCategory(rating.category)}: {rating.probability.toLowerCase()}
+              {rating.blocked && ' · blocked'}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {finish.reason === 'max_tokens' && onContinue && (
+        <div className="pl-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs gap-1 bg-background/70"
+            onClick={onContinue}
+            disabled={disabled}
+            title="Ask the model to carry on from where it stopped"
+          >
+            <StepForward className="h-3 w-3" />
+            Continue
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders
+const FinishNotice = memo(FinishNoticeComponent);
+
+export default FinishNotice;
@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { X } from "lucide-react";
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  GenerationLimits,
+  GenerationSettings,
+  validateGenerationSettings
+} from "@/lib/generation-settings";
+
+interface GenerationSettingsEditorProps {
+  settings: GenerationSettings;
+  limits: GenerationLimits;
+  modelName: string;
+  onSave: (settings: GenerationSettings) => void;
+  onCancel: () => void;
+}
+
+// Labelled number input - an empty field means "use the model default"
+const NumberField = ({
+  label,
+  hint,
+  value,
+  step,
+  error,
+  disabled,
+  onChange
+}: {
+  label: string;
+  hint: string;
+  value?: number;
+  step: number;
+  error?: string;
+  disabled?: boolean;
+  onChange: (value: number | undefined) => void;
+}) => (
+  <div className="space-y-1">
+    <div className="flex items-baseline justify-between">
+      <span className="text-sm font-medium">{label}</span>
+      <span className="text-xs text-muted-foreground">{hint}</span>
+    </div>
+    <Input
+      type="number"
+      step={step}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      placeholder={disabled ? "Not supported" : "Model default"}
+      disabled={disabled}
+      aria-invalid={!!error}
+      className="h-8 text-sm"
+    />
+    {error && <div className="text-xs text-destructive">{error}</div>}
+  </div>
+);
+
+// Form for the project's generation settings, validated against the selected model.
+// Rendered inside a DialogContent; edits stay local until saved.
+function GenerationSettingsEditor({
+  settings,
+  limits,
+  modelName,
+  onSave,
+  onCancel
+}: GenerationSettingsEditorProps) {
+  const [tempSettings, setTempSettings] = useState(settings);
+  const [newStopSequence, setNewStopSequence] = useState("");
+
+  const errors = validateGenerationSettings(tempSettings, limits);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  // Sampling settings the provider leaves out of requests while the model thinks
+  const droppedSamplingSettings = limits.thinkingExcludesSampling && tempSettings.thinkingBudget !== undefined
+    ? [
+        tempSettings.temperature !== undefined && 'Temperature',
+        tempSettings.topP !== undefined && 'Top P',
+        tempSettings.topK !== undefined && 'Top K'
+      ].filter((label): label is string => !!label)
+    : [];
+
+  const updateSetting = <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => {
+    setTempSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const addStopSequence = () => {
+    if (!newStopSequence || tempSettings.stopSequences.includes(newStopSequence)) return;
+    updateSetting('stopSequences', [...tempSettings.stopSequences, newStopSequence]);
+    setNewStopSequence("");
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Generation Settings</DialogTitle>
+        <DialogDescription>
+          Sent with every request in this project. Ranges are checked against {modelName}.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid grid-cols-2 gap-4">
+        <NumberField
+          label="Temperature"
+          hint={`0 – ${limits.maxTemperature}`}
+          step={0.1}
+          value={tempSettings.temperature}
+          error={errors.temperature}
+          onChange={(value) => updateSetting('temperature', value)}
+        />
+        <NumberField
+          label="Top P"
+          hint="0 – 1"
+          step={0.05}
+          value={tempSettings.topP}
+          error={errors.topP}
+          onChange={(value) => updateSetting('topP', value)}
+        />
+        <NumberField
+          label="Top K"
+          hint={limits.maxTopK !== undefined ? `1 – ${limits.maxTopK}` : "n/a"}
+          step={1}
+          value={tempSettings.topK}
+          error={errors.topK}
+          disabled={limits.maxTopK === undefined && tempSettings.topK === undefined}
+          onChange={(value) => updateSetting('topK', value)}
+        />
+        <NumberField
+          label="Max output tokens"
+          hint={`1 – ${limits.maxOutputTokens}`}
+          step={1}
+          value={tempSettings.maxOutputTokens}
+          error={errors.maxOutputTokens}
+          onChange={(value) => updateSetting('maxOutputTokens', value)}
+        />
+        <NumberField
+          label="Seed"
+          hint={limits.supportsSeed ? "whole number" : "n/a"}
+          step={1}
+          value={tempSettings.seed}
+          error={errors.seed}
+          disabled={!limits.supportsSeed && tempSettings.seed === undefined}
+          onChange={(value) => updateSetting('seed', value)}
+        />
+        {(limits.maxThinkingBudget !== undefined || tempSettings.thinkingBudget !== undefined) && (
+          <NumberField
+            label="Thinking budget"
+            hint={limits.maxThinkingBudget !== undefined ? `${limits.minThinkingBudget ?? 0} – ${limits.maxThinkingBudget}` : "n/a"}
+            step={128}
+            value={tempSettings.thinkingBudget}
+            error={errors.thinkingBudget}
+            onChange={(value) => updateSetting('thinkingBudget', value)}
+          />
+        )}
+      </div>
+
+      {limits.thinkingExcludesSampling && limits.maxThinkingBudget !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          Extended thinking is on only while a thinking budget is set.
+        </p>
+      )}
+      {droppedSamplingSettings.length > 0 && (
+        <div className="text-xs text-amber-500">
+          {droppedSamplingSettings.join(', ')} {droppedSamplingSettings.length === 1 ? "isn't" : "aren't"} sent
+          while thinking - clear the thinking budget to use {droppedSamplingSettings.length === 1 ? 'it' : 'them'}.
+        </div>
+      )}
+
+      {/* Stop sequences */}
+      <div className="space-y-1">
+        <div className="flex items-baseline justify-between">
+          <span className="text-sm font-medium">Stop sequences</span>
+          <span className="text-xs text-muted-foreground">up to {limits.maxStopSequences}</span>
+        </div>
+        {tempSettings.stopSequences.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-1.5">
+            {tempSettings.stopSequences.map(sequence => (
+              <span
+                key={sequence}
+                className="text-xs bg-muted/50 pl-2 pr-1 py-0.5 rounded-full flex items-center gap-1 font-mono"
+              >
+                {JSON.stringify(sequence)}
+                <button
+                  onClick={() => updateSetting('stopSequences', tempSettings.stopSequences.filter(s => s !== sequence))}
+                  className="text-muted-foreground hover:text-destructive"
+                  title="Remove stop sequence"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <Input
+          value={newStopSequence}
+          onChange={(e) => setNewStopSequence(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addStopSequence();
+            }
+          }}
+          placeholder="Type a sequence and press Enter"
+          className="h-8 text-sm"
+        />
+        {errors.stopSequences && <div className="text-xs text-destructive">{errors.stopSequences}</div>}
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          className="mr-auto text-muted-foreground"
+          onClick={() => setTempSettings(DEFAULT_GENERATION_SETTINGS)}
+        >
+          Reset to defaults
+        </Button>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onSave(tempSettings)} disabled={hasErrors}>Save Settings</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default GenerationSettingsEditor;
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DEFAULT_HISTORY_SETTINGS,
+  HISTORY_STRATEGIES,
+  HistorySettings,
+  HistoryStrategy
+} from "@/lib/history";
+import { formatTokenCount } from "@/lib/tokens";
+
+interface HistorySettingsEditorProps {
+  settings: HistorySettings;
+  inputTokenLimit: number; // Of the selected model, as a hint for the budget
+  onSave: (settings: HistorySettings) => void;
+  onCancel: () => void;
+}
+
+type NumberSettingKey = 'maxTurns' | 'tokenBudget' | 'keepRecentTurns';
+
+// The number setting each strategy uses
+const STRATEGY_FIELDS: Partial<Record<HistoryStrategy, { key: NumberSettingKey; label: string; hint: string; min: number }>> = {
+  'sliding-window': { key: 'maxTurns', label: 'Messages kept', hint: 'User and assistant messages both count', min: 1 },
+  'token-budget': { key: 'tokenBudget', label: 'Token budget', hint: 'For the whole request, estimated', min: 1 },
+  'summarize': { key: 'keepRecentTurns', label: 'Recent messages kept', hint: 'Sent as they are, after the summary', min: 1 },
+};
+
+// Numbers left invalid under a strategy that isn't selected go back to their defaults
+const withValidNumbers = (settings: HistorySettings): HistorySettings => {
+  const result = { ...settings };
+  (['maxTurns', 'tokenBudget', 'keepRecentTurns'] as NumberSettingKey[]).forEach(key => {
+    if (!Number.isInteger(result[key]) || result[key] < 1) result[key] = DEFAULT_HISTORY_SETTINGS[key];
+  });
+  return result;
+};
+
+// Form for how much conversation history is sent with each request.
+// Rendered inside a DialogContent; edits stay local until saved.
+function HistorySettingsEditor({
+  settings,
+  inputTokenLimit,
+  onSave,
+  onCancel
+}: HistorySettingsEditorProps) {
+  const [tempSettings, setTempSettings] = useState(settings);
+
+  const field = STRATEGY_FIELDS[tempSettings.strategy];
+  const fieldValue = field ? tempSettings[field.key] : undefined;
+  const fieldError = field && (fieldValue === undefined || !Number.isInteger(fieldValue) || fieldValue < field.min)
+    ? `Enter a whole number of at least ${field.min}`
+    : null;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Conversation History</DialogTitle>
+        <DialogDescription>
+          How much of the conversation is sent with each request. The examples and template are always sent.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          {HISTORY_STRATEGIES.map(strategy => (
+            <label key={strategy.value} className="flex items-start gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="history-strategy"
+                checked={tempSettings.strategy === strategy.value}
+                onChange={() => setTempSettings(prev => ({ ...prev, strategy: strategy.value }))}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium">{strategy.label}</span>
+                <span className="block text-xs text-muted-foreground">{strategy.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {field && (
+          <div className="space-y-1">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm font-medium">{field.label}</span>
+              <span className="text-xs text-muted-foreground">
+                {field.key === 'tokenBudget' ? `Model accepts ${formatTokenCount(inputTokenLimit)}` : field.hint}
+              </span>
+            </div>
+            <Input
+              type="number"
+              min={field.min}
+              value={fieldValue === undefined || Number.isNaN(fieldValue) ? '' : fieldValue}
+              onChange={(e) => setTempSettings(prev => ({ ...prev, [field.key]: e.target.value === '' ? NaN : Number(e.target.value) }))}
+              aria-invalid={!!fieldError}
+              className="h-8 text-sm"
+            />
+            {fieldError && <div className="text-xs text-destructive">{fieldError}</div>}
+          </div>
+        )}
+
+        {tempSettings.strategy === 'summarize' && (
+          <div className="text-xs text-muted-foreground">
+            The summary is written by the selected model before a send, when there are new older messages, and reused after that.
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          className="mr-auto text-muted-foreground"
+          onClick={() => setTempSettings(DEFAULT_HISTORY_SETTINGS)}
+        >
+          Reset to defaults
+        </Button>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onSave(withValidNumbers(tempSettings))} disabled={!!fieldError}>Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default HistorySettingsEditor;
@@ -0,0 +1,212 @@
+import { memo, useMemo, useState } from 'react';
+import copy from 'copy-to-clipboard';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCheck, Terminal, Trash2 } from "lucide-react";
+import { useInspectorEntries } from "@/hooks/use-inspector";
+import { InspectorEntry, InspectorEntryKind, clearInspectorEntries, toCurlCommand } from "@/lib/inspector";
+import { isConsoleLoggingEnabled, setConsoleLoggingEnabled } from "@/lib/debug";
+
+type KindFilter = InspectorEntryKind | 'all';
+type DetailTab = 'request' | 'response' | 'headers';
+
+const KIND_LABELS: Record<InspectorEntryKind, string> = {
+  generate: 'Generate',
+  listModels: 'Models',
+  countTokens: 'Tokens',
+  embed: 'Embeddings',
+};
+
+// Pretty-print JSON bodies, leave anything else (e.g. SSE streams) as is
+const formatBody = (body?: string) => {
+  if (!body) return '';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+const formatDuration = (ms?: number) => ms === undefined ? '…' : ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const statusClass = (entry: InspectorEntry) =>
+  entry.state === 'error' ? 'text-destructive' : entry.state === 'pending' ? 'text-amber-500' : 'text-emerald-500';
+
+// One line per recorded call
+const EntryRow = ({ entry, isSelected, onSelect }: { entry: InspectorEntry; isSelected: boolean; onSelect: () => void }) => (
+  <button
+    onClick={onSelect}
+    className={`w-full text-left px-2 py-1.5 rounded-md text-xs flex items-center gap-2 transition-colors ${isSelected ? 'bg-primary/10' : 'hover:bg-muted/40'}`}
+  >
+    <span className={`font-mono w-10 flex-shrink-0 ${statusClass(entry)}`}>
+      {entry.status ?? (entry.state === 'error' ? 'ERR' : '…')}
+    </span>
+    <span className="w-16 flex-shrink-0 text-muted-foreground">{KIND_LABELS[entry.kind]}</span>
+    <span className="truncate flex-1 font-mono text-muted-foreground" title={entry.url}>{entry.url}</span>
+    <span className="flex-shrink-0 text-muted-foreground">{formatDuration(entry.durationMs)}</span>
+  </button>
+);
+
+// Inspector drawer content - recorded API calls with their bodies, headers and timing.
+// Rendered inside a SheetContent.
+function InspectorPanelComponent() {
+  const entries = useInspectorEntries();
+  const [filterText, setFilterText] = useState("");
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detailTab, setDetailTab] = useState<DetailTab>('request');
+  const [consoleLogging, setConsoleLogging] = useState(isConsoleLoggingEnabled);
+  const [curlCopied, setCurlCopied] = useState(false);
+
+  const filteredEntries = useMemo(() => {
+    const query = filterText.trim().toLowerCase();
+    return entries.filter(entry =>
+      (kindFilter === 'all' || entry.kind === kindFilter) &&
+      (!errorsOnly || entry.state === 'error') &&
+      (!query || [entry.url, entry.provider, String(entry.status ?? ''), entry.error ?? '']
+        .some(value => value.toLowerCase().includes(query)))
+    );
+  }, [entries, filterText, kindFilter, errorsOnly]);
+
+  const selectedEntry = entries.find(entry => entry.id === selectedId);
+
+  const copyAsCurl = () => {
+    if (!selectedEntry) return;
+    copy(toCurlCommand(selectedEntry));
+    setCurlCopied(true);
+    setTimeout(() => setCurlCopied(false), 2000);
+  };
+
+  const toggleConsoleLogging = (enabled: boolean) => {
+    setConsoleLoggingEnabled(enabled);
+    setConsoleLogging(enabled);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <SheetHeader>
+        <SheetTitle>Inspector</SheetTitle>
+        <SheetDescription>
+          API calls made in this session. Keys are redacted.
+        </SheetDescription>
+      </SheetHeader>
+
+      {/* Filters */}
+      <div className="px-4 space-y-2">
+        <Input
+          value={filterText}
+          onChange={(e) => setFilterText(e.target.value)}
+          placeholder="Filter by URL, provider, status or error"
+          className="h-8 text-xs"
+        />
+        <div className="flex items-center gap-2 flex-wrap">
+          <Tabs value={kindFilter} onValueChange={(value) => setKindFilter(value as KindFilter)}>
+            <TabsList className="h-7">
+              <TabsTrigger value="all" className="text-xs">All</TabsTrigger>
+              {(Object.keys(KIND_LABELS) as InspectorEntryKind[]).map(kind => (
+                <TabsTrigger key={kind} value={kind} className="text-xs">{KIND_LABELS[kind]}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+            Errors only
+          </label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs gap-1 ml-auto text-muted-foreground hover:text-foreground"
+            onClick={() => {
+              clearInspectorEntries();
+              setSelectedId(null);
+            }}
+            disabled={entries.length === 0}
+            title="Clear recorded calls"
+          >
+            <Trash2 className="h-3 w-3" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {/* Recorded calls */}
+      <div className="px-4 mt-2 max-h-[30vh] overflow-y-auto scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent flex-shrink-0">
+        {filteredEntries.length === 0 ? (
+          <div className="text-xs text-muted-foreground py-2">
+            {entries.length === 0 ? 'No API calls yet.' : 'No calls match the filter.'}
+          </div>
+        ) : (
+          filteredEntries.map(entry => (
+            <EntryRow
+              key={entry.id}
+              entry={entry}
+              isSelected={entry.id === selectedId}
+              onSelect={() => setSelectedId(entry.id)}
+            />
+          ))
+        )}
+      </div>
+
+      {/* Selected call */}
+      {selectedEntry && (
+        <div className="px-4 mt-3 flex flex-col flex-1 min-h-0 border-t border-border/30 pt-3">
+          <div className="flex items-center gap-2 text-xs mb-2 flex-wrap">
+            <span className={`font-medium ${statusClass(selectedEntry)}`}>
+              {selectedEntry.method} {selectedEntry.status ?? ''} {selectedEntry.error && `· ${selectedEntry.error}`}
+            </span>
+            <span className="text-muted-foreground">
+              {new Date(selectedEntry.startedAt).toLocaleTimeString()} · first byte {formatDuration(selectedEntry.firstByteMs)} · total {formatDuration(selectedEntry.durationMs)}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs gap-1 ml-auto bg-background/70"
+              onClick={copyAsCurl}
+              title="Copy the request as a curl command (the key stays redacted)"
+            >
+              {curlCopied ? <CheckCheck className="h-3 w-3" /> : <Terminal className="h-3 w-3" />}
+              {curlCopied ? 'Copied!' : 'Copy as curl'}
+            </Button>
+          </div>
+
+          <Tabs value={detailTab} onValueChange={(value) => setDetailTab(value as DetailTab)}>
+            <TabsList className="h-7">
+              <TabsTrigger value="request" className="text-xs">Request</TabsTrigger>
+              <TabsTrigger value="response" className="text-xs">Response</TabsTrigger>
+              <TabsTrigger value="headers" className="text-xs">Headers</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <pre className="mt-2 flex-1 min-h-0 overflow-auto rounded-md bg-muted/30 border border-border/30 p-2 text-[11px] font-mono whitespace-pre-wrap break-all scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent">
+            {detailTab === 'request' && `${selectedEntry.url}\n\n${formatBody(selectedEntry.requestBody)}`}
+            {detailTab === 'response' && (selectedEntry.state === 'pending' && !selectedEntry.responseBody
+              ? 'Waiting for the response…'
+              : formatBody(selectedEntry.responseBody) || selectedEntry.error || '')}
+            {detailTab === 'headers' && `Request\n${formatHeaders(selectedEntry.requestHeaders)}\n\nResponse\n${formatHeaders(selectedEntry.responseHeaders)}`}
+          </pre>
+        </div>
+      )}
+
+      {/* Console logging toggle */}
+      <label className="mt-auto px-4 py-3 border-t border-border/30 flex items-center gap-2 text-xs text-muted-foreground">
+        <input type="checkbox" checked={consoleLogging} onChange={(e) => toggleConsoleLogging(e.target.checked)} />
+        Also log diagnostics to the browser console
+      </label>
+    </div>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders
+const InspectorPanel = memo(InspectorPanelComponent);
+
+export default InspectorPanel;
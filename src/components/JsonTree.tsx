@@ -0,0 +1,84 @@
+import { memo, useState } from 'react';
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+// Render a primitive JSON value with type-specific colouring
+const JsonPrimitive = ({ value }: { value: unknown }) => {
+  if (value === null) return <span className="text-muted-foreground">null</span>;
+  if (typeof value === 'string') return <span className="text-green-400 break-all">{JSON.stringify(value)}</span>;
+  if (typeof value === 'number') return <span className="text-sky-400">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-amber-400">{String(value)}</span>;
+  return <span>{String(value)}</span>;
+};
+
+// One collapsible node of the tree
+const JsonNode = ({
+  name,
+  value,
+  depth
+}: {
+  name?: string;
+  value: unknown;
+  depth: number;
+}) => {
+  // Expand the first two levels by default
+  const [isOpen, setIsOpen] = useState(depth < 2);
+  const isArray = Array.isArray(value);
+  const isObject = typeof value === 'object' && value !== null;
+
+  const label = name !== undefined && (
+    <span className="text-primary/80">{name}: </span>
+  );
+
+  if (!isObject) {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonPrimitive value={value} />
+      </div>
+    );
+  }
+
+  const entries = isArray
+    ? (value as unknown[]).map((item, index) => [String(index), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : ''}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-0.5 -ml-4 hover:text-foreground"
+        title={isOpen ? "Collapse" : "Expand"}
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        {label}
+        <span className="text-muted-foreground">
+          {open}
+          {!isOpen && ` ${entries.length} ${isArray ? 'items' : 'keys'} ${close}`}
+        </span>
+      </button>
+      {isOpen && (
+        <>
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={isArray ? undefined : key} value={item} depth={depth + 1} />
+          ))}
+          <div className="text-muted-foreground">{close}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Collapsible tree view for a parsed JSON value
+function JsonTreeComponent({ value }: { value: unknown }) {
+  return (
+    <div className="font-mono text-xs leading-relaxed pl-4">
+      <JsonNode value={value} depth={0} />
+    </div>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders
+const JsonTree = memo(JsonTreeComponent);
+
+export default JsonTree;
@@ -0,0 +1,150 @@
+import { memo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Box, Check, ChevronDown, RefreshCw } from "lucide-react";
+import { PROVIDERS, PROVIDER_IDS, ProviderId } from "@/lib/providers";
+import { Model } from "@/lib/models";
+import { formatTokenCount } from "@/lib/tokens";
+
+interface ModelSelectorProps {
+  models: Model[];
+  selectedModel: string;
+  onSelectModel: (name: string) => void;
+  resolveProvider: (name: string) => ProviderId;
+  onAddCustomModel: (name: string) => void;
+  onRefresh: () => void;
+  isRefreshing: boolean;
+  errors: Partial<Record<ProviderId, string>>;
+}
+
+// One line summary of what the provider reported about a model
+const describeCapabilities = (model: Model): string => {
+  const parts: string[] = [];
+  if (model.inputTokenLimit) parts.push(`in ${formatTokenCount(model.inputTokenLimit)}`);
+  if (model.outputTokenLimit) parts.push(`out ${formatTokenCount(model.outputTokenLimit)}`);
+  if (model.supportedGenerationMethods?.length) parts.push(model.supportedGenerationMethods.join(', '));
+  return parts.join(' · ');
+};
+
+// Model dropdown grouped by provider, with a manual entry for unlisted model ids
+function ModelSelectorComponent({
+  models,
+  selectedModel,
+  onSelectModel,
+  resolveProvider,
+  onAddCustomModel,
+  onRefresh,
+  isRefreshing,
+  errors
+}: ModelSelectorProps) {
+  const [customModelId, setCustomModelId] = useState("");
+
+  const submitCustomModel = () => {
+    const name = customModelId.trim();
+    if (!name) return;
+    onAddCustomModel(name);
+    setCustomModelId("");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs flex items-center gap-1.5 bg-background/70 text-muted-foreground h-7 px-3 border-border/20 shadow-sm hover:bg-background"
+        >
+          <Box className="h-[10px] w-[10px] flex-shrink-0" />
+          <span className="truncate max-w-28">
+            {models.find(m => m.name === selectedModel)?.displayName || selectedModel}
+          </span>
+          <ChevronDown className="h-3 w-3 opacity-70 flex-shrink-0 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 max-h-[70vh] overflow-y-auto scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent">
+        {PROVIDER_IDS.map(providerId => {
+          const providerModels = models.filter(model => resolveProvider(model.name) === providerId);
+          if (providerModels.length === 0 && !errors[providerId]) return null;
+
+          return (
+            <div key={providerId}>
+              <DropdownMenuLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                {PROVIDERS[providerId].displayName}
+              </DropdownMenuLabel>
+              {errors[providerId] && (
+                <div className="px-2 pb-1 text-[10px] text-destructive line-clamp-2" title={errors[providerId]}>
+                  Couldn't load models: {errors[providerId]}
+                </div>
+              )}
+              {providerModels.map(model => {
+                const capabilities = describeCapabilities(model);
+                return (
+                  <DropdownMenuItem
+                    key={model.name}
+                    className={`flex flex-col items-start gap-0.5 ${model.name === selectedModel ? 'bg-primary/5' : ''}`}
+                    onSelect={() => onSelectModel(model.name)}
+                    title={model.description || model.name}
+                  >
+                    <div className="flex items-center gap-2 w-full">
+                      <span className="text-sm truncate">{model.displayName}</span>
+                      {model.name === selectedModel && (
+                        <Check className="h-3.5 w-3.5 text-primary flex-shrink-0" />
+                      )}
+                      <span className="text-[10px] text-muted-foreground truncate ml-auto max-w-32">{model.name}</span>
+                    </div>
+                    {capabilities && (
+                      <span className="text-[10px] text-muted-foreground truncate w-full">{capabilities}</span>
+                    )}
+                  </DropdownMenuItem>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        <DropdownMenuSeparator />
+
+        {/* Manual entry for preview models that aren't listed yet */}
+        <div className="flex items-center gap-1.5 p-1.5">
+          <Input
+            value={customModelId}
+            onChange={(e) => setCustomModelId(e.target.value)}
+            onKeyDown={(e) => {
+              // Keep the menu's typeahead from swallowing keystrokes
+              e.stopPropagation();
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submitCustomModel();
+              }
+            }}
+            placeholder="Custom model id"
+            className="h-7 text-xs"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 text-muted-foreground hover:text-foreground rounded-full flex-shrink-0"
+            onClick={onRefresh}
+            disabled={isRefreshing}
+            title="Refresh model lists"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders
+const ModelSelector = memo(ModelSelectorComponent);
+
+export default ModelSelector;
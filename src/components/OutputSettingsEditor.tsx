@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { OutputMode, OutputSettings, parseJsonSchema } from "@/lib/json-schema";
+
+interface OutputSettingsEditorProps {
+  settings: OutputSettings;
+  onSave: (settings: OutputSettings) => void;
+  onCancel: () => void;
+}
+
+const SCHEMA_PLACEHOLDER = `{
+  "type": "object",
+  "properties": {
+    "name": { "type": "string" },
+    "tags": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["name"]
+}`;
+
+// Form for the project's output mode and JSON response schema.
+// Rendered inside a DialogContent; edits stay local until saved.
+function OutputSettingsEditor({
+  settings,
+  onSave,
+  onCancel
+}: OutputSettingsEditorProps) {
+  const [tempSettings, setTempSettings] = useState(settings);
+
+  const { error: schemaError } = parseJsonSchema(tempSettings.responseSchema);
+  const isJsonMode = tempSettings.mode === 'json';
+
+  const formatSchema = () => {
+    const { schema } = parseJsonSchema(tempSettings.responseSchema);
+    if (schema) {
+      setTempSettings(prev => ({ ...prev, responseSchema: JSON.stringify(schema, null, 2) }));
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Output Mode</DialogTitle>
+        <DialogDescription>
+          In JSON mode every reply is requested as JSON and checked against the schema below.
+        </DialogDescription>
+      </DialogHeader>
+
+      <Tabs
+        value={tempSettings.mode}
+        onValueChange={(mode) => setTempSettings(prev => ({ ...prev, mode: mode as OutputMode }))}
+      >
+        <TabsList>
+          <TabsTrigger value="text">Text</TabsTrigger>
+          <TabsTrigger value="json">JSON</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isJsonMode && (
+        <div className="space-y-1">
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm font-medium">Response schema</span>
+            <button
+              onClick={formatSchema}
+              disabled={!!schemaError || !tempSettings.responseSchema.trim()}
+              className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+            >
+              Format
+            </button>
+          </div>
+          <Textarea
+            value={tempSettings.responseSchema}
+            onChange={(e) => setTempSettings(prev => ({ ...prev, responseSchema: e.target.value }))}
+            placeholder={SCHEMA_PLACEHOLDER}
+            spellCheck={false}
+            aria-invalid={!!schemaError}
+            className="font-mono text-xs min-h-[240px] max-h-[50vh] scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent"
+          />
+          {schemaError ? (
+            <div className="text-xs text-destructive">{schemaError}</div>
+          ) : (
+            <div className="text-xs text-muted-foreground">
+              Leave empty to accept any JSON. Supports type, properties, required, items, enum and nullable.
+            </div>
+          )}
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onSave(tempSettings)} disabled={isJsonMode && !!schemaError}>Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default OutputSettingsEditor;
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText } from "lucide-react";
+import type { TokenCounts } from "@/hooks/use-token-count";
+import type { ApiPart, GenerateRequest, ProviderRequest } from "@/lib/providers";
+import { redactHeaders, redactUrl } from "@/lib/inspector";
+import { formatFileSize } from "@/lib/attachments";
+import { countCustomSafetySettings } from "@/lib/safety-settings";
+import { HISTORY_STRATEGIES, HistoryInfo } from "@/lib/history";
+import { TOKEN_SECTIONS, TOKEN_SECTION_LABELS, formatTokenCount } from "@/lib/tokens";
+
+type PreviewMode = 'rendered' | 'json';
+
+interface PayloadPreviewProps {
+  request: GenerateRequest;
+  providerRequest: ProviderRequest;
+  providerName: string;
+  tokenCounts: TokenCounts;
+  inputTokenLimit: number;
+  history?: HistoryInfo; // Which conversation messages are sent
+  note?: string; // Where the preview may differ from the actual send
+}
+
+// Base64 file data is shortened in the JSON view - megabytes of it would freeze the dialog
+const MAX_INLINE_DATA_CHARS = 100;
+
+const shortenInlineData = (key: string, value: unknown) =>
+  typeof value === 'string' && value.length > MAX_INLINE_DATA_CHARS && (key === 'data' || key === 'url' || key === 'file_data')
+    ? `<base64, ${formatFileSize(Math.round((value.length * 3) / 4))}>`
+    : value;
+
+// e.g. "Sliding window · 12 of 40 messages sent"
+const describeHistory = (history: HistoryInfo): string => [
+  HISTORY_STRATEGIES.find(strategy => strategy.value === history.strategy)?.label,
+  `${history.sentMessages} of ${history.totalMessages} messages sent`,
+  ...(history.summarizedMessages > 0 ? [`${history.summarizedMessages} summarized`] : []),
+].join(' · ');
+
+// Settings that are actually set, for the rendered view
+const describeGenerationConfig = (request: GenerateRequest): [string, string][] => {
+  const { generationSettings: settings } = request;
+  const entries: [string, string | undefined][] = [
+    ['Model', request.model],
+    ['Temperature', settings.temperature?.toString()],
+    ['Top P', settings.topP?.toString()],
+    ['Top K', settings.topK?.toString()],
+    ['Max output tokens', settings.maxOutputTokens?.toString()],
+    ['Stop sequences', settings.stopSequences.length > 0 ? settings.stopSequences.map(s => JSON.stringify(s)).join(', ') : undefined],
+    ['Seed', settings.seed?.toString()],
+    ['Thinking budget', request.thinking ? (request.thinking.budget?.toString() ?? 'model default') : undefined],
+    ['Output', request.jsonOutput ? (request.jsonOutput.schema ? 'JSON with schema' : 'JSON') : undefined],
+    ['Safety', request.safetySettings && countCustomSafetySettings(request.safetySettings) > 0
+      ? `${countCustomSafetySettings(request.safetySettings)} custom thresholds`
+      : undefined],
+  ];
+  return entries.filter((entry): entry is [string, string] => entry[1] !== undefined);
+};
+
+const PartPreview = ({ part }: { part: ApiPart }) => {
+  if ('text' in part) {
+    return <div className="whitespace-pre-wrap break-words">{part.text}</div>;
+  }
+  const { mimeType, data } = part.inlineData;
+  if (mimeType.startsWith('image/')) {
+    return <img src={`data:${mimeType};base64,${data}`} alt="" className="max-h-24 rounded-md border border-border/40" />;
+  }
+  return (
+    <div className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md border border-border/40 bg-muted/30 text-muted-foreground">
+      <FileText className="h-3 w-3" />
+      <span>{mimeType} · {formatFileSize(Math.round((data.length * 3) / 4))}</span>
+    </div>
+  );
+};
+
+// Exactly what the next send will contain, as the selected provider receives it.
+// Rendered inside a DialogContent.
+function PayloadPreview({
+  request,
+  providerRequest,
+  providerName,
+  tokenCounts,
+  inputTokenLimit,
+  history,
+  note
+}: PayloadPreviewProps) {
+  const [mode, setMode] = useState<PreviewMode>('rendered');
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Payload Preview</DialogTitle>
+        <DialogDescription>
+          The request the next send makes to {providerName}, including the current draft.
+        </DialogDescription>
+      </DialogHeader>
+
+      {note && <div className="text-xs text-amber-500">{note}</div>}
+      {history && history.totalMessages > 0 && (
+        <div className="text-xs text-muted-foreground">History: {describeHistory(history)}</div>
+      )}
+
+      {/* Token estimate per section */}
+      <div className="flex flex-wrap items-center gap-1.5 text-[11px] text-muted-foreground">
+        {TOKEN_SECTIONS.map(section => (
+          <span key={section} className="bg-muted/40 rounded-md px-1.5 py-0.5">
+            {TOKEN_SECTION_LABELS[section]} {formatTokenCount(tokenCounts.sections[section])}
+          </span>
+        ))}
+        <span className="ml-auto">
+          {tokenCounts.isEstimate && '≈'}{formatTokenCount(tokenCounts.total)} / {formatTokenCount(inputTokenLimit)} tokens
+        </span>
+      </div>
+
+      <Tabs value={mode} onValueChange={(value) => setMode(value as PreviewMode)}>
+        <TabsList>
+          <TabsTrigger value="rendered">Rendered</TabsTrigger>
+          <TabsTrigger value="json">JSON</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="max-h-[60vh] overflow-y-auto scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent">
+        {mode === 'json' ? (
+          <pre className="text-[11px] font-mono whitespace-pre-wrap break-all bg-muted/30 border border-border/30 rounded-md p-2">
+            {`POST ${redactUrl(providerRequest.url)}\n`}
+            {Object.entries(redactHeaders(providerRequest.headers)).map(([name, value]) => `${name}: ${value}\n`).join('')}
+            {'\n'}
+            {JSON.stringify(providerRequest.body, shortenInlineData, 2)}
+          </pre>
+        ) : (
+          <div className="space-y-3 text-xs">
+            {/* Generation config */}
+            <div className="flex flex-wrap gap-1.5">
+              {describeGenerationConfig(request).map(([label, value]) => (
+                <span key={label} className="bg-primary/5 border border-primary/10 rounded-md px-1.5 py-0.5">
+                  <span className="text-muted-foreground">{label}:</span> {value}
+                </span>
+              ))}
+            </div>
+
+            {request.systemInstruction && (
+              <div className="rounded-lg border border-primary/20 bg-primary/5 p-2">
+                <div className="text-[10px] font-semibold uppercase tracking-wide text-primary mb-1">System</div>
+                <div className="whitespace-pre-wrap break-words">{request.systemInstruction}</div>
+              </div>
+            )}
+
+            {request.contents.map((content, i) => (
+              <div
+                key={i}
+                className={`rounded-lg border p-2 ${content.role === 'model' ? 'border-border/40 bg-secondary/40' : 'border-border/40 bg-card/40'}`}
+              >
+                <div className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground mb-1">{content.role}</div>
+                <div className="space-y-2">
+                  {content.parts.map((part, j) => <PartPreview key={j} part={part} />)}
+                </div>
+              </div>
+            ))}
+
+            {request.contents.length === 0 && (
+              <div className="text-muted-foreground">Nothing to send yet.</div>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default PayloadPreview;
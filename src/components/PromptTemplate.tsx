@@ -1,8 +1,22 @@
 import { memo } from 'react';
 import { Button } from "@/components/ui/button";
-import { PlusCircle, X, GripVertical, Type, TextCursorInput } from "lucide-react";
+import { PlusCircle, X, GripVertical, Type, TextCursorInput, Bot } from "lucide-react";
 import { EditableText } from "@/components/ui/editable-text";
 import { Textarea } from "@/components/ui/textarea";
+import TemplateFieldInput from "@/components/TemplateFieldInput";
+import type { Attachment } from "@/lib/attachments";
+import { TemplateVariableValues, extractVariableNames, toVariableName } from "@/lib/template-variables";
+import {
+  LEGACY_TEMPLATE_FIELD,
+  TEMPLATE_FIELD_TYPES,
+  TemplateField,
+  TemplateFieldType,
+  formatFieldValue,
+  getBinaryAttachments,
+  hasRangeRules,
+  validateFieldRules,
+  validateFieldValue
+} from "@/lib/template-fields";
 import {
   DndContext,
   closestCenter,
@@ -24,14 +38,125 @@ import {
 export type PromptTemplateType = {
   id: string;
   inputs: TemplateInput[];
+  variables?: TemplateVariableValues; // Values for {{placeholders}} that have no input block
 };
 
-export type TemplateInputType = 'input' | 'text';
+// 'system' blocks are sent as the system instruction instead of a user turn
+export type TemplateInputType = 'input' | 'text' | 'system';
 
 export type TemplateInput = {
   id: string;
   type: TemplateInputType;
-  content: string;
+  content: string; // For 'input' blocks, the variable's current value
+  name?: string; // Variable name of an 'input' block, referenced as {{name}}
+  field?: TemplateField; // Value type and rules of an 'input' block
+  attachments?: Attachment[]; // Files of an 'input' block with a file field
+};
+
+// A value collected when the template is run
+export type TemplateVariable = {
+  name: string;
+  inputId?: string; // Set when the value lives in an input block
+  value: string;
+  field?: TemplateField; // Set for input blocks - placeholders are free text
+  attachments?: Attachment[];
+};
+
+export const getTemplateField = (input: TemplateInput): TemplateField => input.field ?? LEGACY_TEMPLATE_FIELD;
+
+// Older input blocks have no name, so fall back to their position among the input blocks
+const getInputVariableName = (input: TemplateInput, index: number) =>
+  input.name?.trim() || `variable_${index + 1}`;
+
+const getInputBlockNames = (template: PromptTemplateType): Map<string, string> =>
+  new Map(template.inputs
+    .filter(input => input.type === 'input')
+    .map((input, index) => [input.id, getInputVariableName(input, index)]));
+
+// Variables of a template: named input blocks first, then {{placeholders}} in text and system blocks
+export const getTemplateVariables = (template: PromptTemplateType): TemplateVariable[] => {
+  const variables = new Map<string, TemplateVariable>();
+  const inputNames = getInputBlockNames(template);
+  template.inputs.forEach(input => {
+    const name = inputNames.get(input.id);
+    if (name !== undefined && !variables.has(name)) {
+      variables.set(name, {
+        name,
+        inputId: input.id,
+        value: input.content,
+        field: getTemplateField(input),
+        attachments: input.attachments
+      });
+    }
+  });
+  template.inputs
+    .filter(input => input.type !== 'input')
+    .forEach(input => {
+      extractVariableNames(input.content).forEach(name => {
+        if (!variables.has(name)) {
+          variables.set(name, { name, value: template.variables?.[name] ?? "" });
+        }
+      });
+    });
+  return [...variables.values()];
+};
+
+// A variable's value as it is sent, serialized by its field type
+export const formatTemplateVariable = (variable: TemplateVariable): string =>
+  variable.field ? formatFieldValue(variable.field, variable.value, variable.attachments) : variable.value;
+
+// Values as they are sent, for filling in {{placeholders}}. Placeholders that were never filled in
+// have no value, so they are sent as written rather than silently dropped.
+export const getTemplateVariableValues = (template: PromptTemplateType): TemplateVariableValues =>
+  Object.fromEntries(getTemplateVariables(template)
+    .filter(variable => variable.field || variable.value)
+    .map(variable => [variable.name, formatTemplateVariable(variable)]));
+
+// Why a variable's value (or its field's rules) can't be run, or null when it can
+export const validateTemplateVariable = (
+  variable: TemplateVariable,
+  value = variable.value,
+  attachments = variable.attachments
+): string | null =>
+  variable.field
+    ? validateFieldRules(variable.field) ?? validateFieldValue(variable.field, value, attachments)
+    : null;
+
+// Errors of the template's variables, keyed by variable name - any error blocks a run
+export const getTemplateErrors = (template: PromptTemplateType): Record<string, string> =>
+  Object.fromEntries(getTemplateVariables(template)
+    .map(variable => [variable.name, validateTemplateVariable(variable)])
+    .filter((entry): entry is [string, string] => entry[1] !== null));
+
+// Files of file fields that are sent as file parts after the template text (text files are inlined)
+export const getTemplateAttachments = (template: PromptTemplateType): Attachment[] =>
+  template.inputs
+    .filter(input => input.type === 'input' && getTemplateField(input).type === 'file')
+    .flatMap(input => getBinaryAttachments(input.attachments));
+
+// Write values collected at run time back into the template - input blocks take theirs as content,
+// and file fields take their files
+export const applyTemplateVariables = (
+  template: PromptTemplateType,
+  values: TemplateVariableValues,
+  files: Record<string, Attachment[]> = {}
+): PromptTemplateType => {
+  const inputNames = getInputBlockNames(template);
+  const placeholderValues = Object.fromEntries(Object.entries(values)
+    .filter(([name]) => ![...inputNames.values()].includes(name)));
+  return {
+    ...template,
+    inputs: template.inputs.map(input => {
+      const name = inputNames.get(input.id);
+      if (name === undefined) return input;
+      return {
+        ...input,
+        content: name in values ? values[name] : input.content,
+        attachments: name in files ? files[name] : input.attachments
+      };
+    }),
+    variables: { ...template.variables, ...placeholderValues }
+  };
 };
 
 interface PromptTemplateProps {
@@ -39,16 +164,99 @@ interface PromptTemplateProps {
   setPromptTemplate: React.Dispatch<React.SetStateAction<PromptTemplateType>>;
 }
 
+// Optional number from a rule input - empty means no rule
+const toOptionalNumber = (text: string): number | undefined =>
+  text.trim() === '' || !Number.isFinite(Number(text)) ? undefined : Number(text);
+
+const RULE_LABELS: Partial<Record<TemplateFieldType, string>> = {
+  'number': 'value',
+  'text': 'length',
+  'long-text': 'length',
+  'file': 'files',
+};
+
+// Type, required flag and min/max or options of a variable block
+const FieldRulesEditor = ({
+  field,
+  onChange
+}: {
+  field: TemplateField,
+  onChange: (field: TemplateField) => void
+}) => (
+  <div className="mb-1.5 space-y-1.5 text-[11px] text-muted-foreground">
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={field.type}
+        // Rules don't carry over between types - a length limit isn't a value limit
+        onChange={(e) => onChange({ type: e.target.value as TemplateFieldType, required: field.required })}
+        className="h-6 rounded-md border border-border/40 bg-background px-1 text-[11px] text-foreground focus:outline-none"
+        title="Field type"
+      >
+        {TEMPLATE_FIELD_TYPES.map(type => (
+          <option key={type.value} value={type.value}>{type.label}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!field.required}
+          onChange={(e) => onChange({ ...field, required: e.target.checked })}
+          className="h-3 w-3 accent-primary"
+        />
+        Required
+      </label>
+      {hasRangeRules(field.type) && (
+        <span className="flex items-center gap-1">
+          <span>{RULE_LABELS[field.type]}</span>
+          <input
+            type="number"
+            value={field.min ?? ''}
+            onChange={(e) => onChange({ ...field, min: toOptionalNumber(e.target.value) })}
+            placeholder="min"
+            className="h-6 w-14 rounded-md border border-border/40 bg-background px-1 text-foreground focus:outline-none"
+          />
+          <span>–</span>
+          <input
+            type="number"
+            value={field.max ?? ''}
+            onChange={(e) => onChange({ ...field, max: toOptionalNumber(e.target.value) })}
+            placeholder="max"
+            className="h-6 w-14 rounded-md border border-border/40 bg-background px-1 text-foreground focus:outline-none"
+          />
+        </span>
+      )}
+    </div>
+    {field.type === 'select' && (
+      <Textarea
+        value={(field.options || []).join('\n')}
+        onChange={(e) => onChange({ ...field, options: e.target.value.split('\n') })}
+        placeholder="Options, one per line"
+        className="min-h-[48px] max-h-[120px] text-xs resize-y"
+      />
+    )}
+  </div>
+);
+
 // Sortable Input component with drag functionality
 const SortableTemplateInput = memo(({ 
   input,
+  variableName,
+  error,
   canDelete,
   onContentChange,
+  onNameChange,
+  onFieldChange,
+  onAttachmentsChange,
   onDelete
 }: { 
   input: TemplateInput,
+  variableName?: string,
+  error?: string,
   canDelete: boolean,
   onContentChange: (value: string) => void,
+  onNameChange: (value: string) => void,
+  onFieldChange: (field: TemplateField) => void,
+  onAttachmentsChange: (attachments: Attachment[]) => void,
   onDelete: () => void
 }) => {
   const {
@@ -66,6 +274,8 @@ const SortableTemplateInput = memo(({
     }
   });
 
+  const field = getTemplateField(input);
+
   const style = {
     transform: transform ? `translate3d(${transform.x}px, ${transform.y}px, 0)` : undefined,
     transition,
@@ -92,18 +302,54 @@ const SortableTemplateInput = memo(({
         </div>
         
         {/* Content based on type */}
-        {input.type === 'input' ? (
+        {input.type === 'system' ? (
+          <div 
+            className="mb-2" 
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center gap-1 mb-1 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+              <Bot className="h-3 w-3" />
+              <span>System instruction</span>
+            </div>
+            <EditableText
+              value={input.content}
+              onChange={onContentChange}
+              multiline={true}
+              placeholder="Enter instructions the model should always follow..."
+              className="text-sm text-foreground min-h-[1.5em] w-full cursor-text border-l-2 border-primary/30 pl-2"
+            />
+          </div>
+        ) : input.type === 'input' ? (
           <div 
             className="mb-2" 
             onClick={(e) => e.stopPropagation()}
             onMouseDown={(e) => e.stopPropagation()}
           >
-            <Textarea
+            <div className="flex items-center gap-1 mb-1 text-[11px] font-mono text-muted-foreground">
+              <TextCursorInput className="h-3 w-3 flex-shrink-0" />
+              <span>{'{{'}</span>
+              <input
+                value={input.name ?? ""}
+                onChange={(e) => onNameChange(e.target.value)}
+                onBlur={() => onNameChange(toVariableName(input.name || variableName || ""))}
+                placeholder={variableName}
+                className="bg-transparent text-foreground outline-none border-b border-transparent focus:border-border min-w-0 w-32"
+                title="Variable name - reference it in text blocks as {{name}}"
+              />
+              <span>{'}}'}</span>
+            </div>
+            <FieldRulesEditor field={field} onChange={onFieldChange} />
+            <TemplateFieldInput
+              field={field}
               value={input.content}
-              onChange={(e) => onContentChange(e.target.value)}
-              className="w-full p-2 text-sm bg-background text-foreground resize-none min-h-[60px] max-h-[300px] overflow-y-auto focus:outline-none focus:border-border focus:ring-0 scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent hover:scrollbar-thumb-border/70 rounded-lg border transition-colors duration-200 cursor-text"
-              placeholder="Enter variable content..."
+              attachments={input.attachments}
+              onChange={onContentChange}
+              onAttachmentsChange={onAttachmentsChange}
+              invalid={!!error}
+              placeholder="Enter variable value, or fill it in when running..."
             />
+            {error && <div className="mt-1 text-xs text-destructive">{error}</div>}
           </div>
         ) : (
           <div 
@@ -115,7 +361,7 @@ const SortableTemplateInput = memo(({
               value={input.content}
               onChange={onContentChange}
               multiline={true}
-              placeholder="Enter static text..."
+              placeholder="Enter static text, with {{name}} for variables..."
               className="text-sm text-foreground min-h-[1.5em] w-full cursor-text"
             />
           </div>
@@ -200,27 +446,50 @@ function PromptTemplateComponent({
 
   // Direct operations on the template through the setter
   const addInput = () => {
+    setPromptTemplate(prev => {
+      // First free variable_N name
+      const takenNames = new Set(getTemplateVariables(prev).map(variable => variable.name));
+      let count = prev.inputs.filter(input => input.type === 'input').length + 1;
+      while (takenNames.has(`variable_${count}`)) count++;
+
+      return {
+        ...prev,
+        inputs: [
+          ...prev.inputs, 
+          {
+            id: `input-${Date.now()}`,
+            type: 'input',
+            content: "",
+            name: `variable_${count}`,
+            field: { type: 'text' }
+          }
+        ]
+      };
+    });
+  };
+  
+  const addText = () => {
     setPromptTemplate(prev => ({
       ...prev,
       inputs: [
         ...prev.inputs, 
         {
-          id: `input-${Date.now()}`,
-          type: 'input',
+          id: `text-${Date.now()}`,
+          type: 'text',
           content: ""
         }
       ]
     }));
   };
   
-  const addText = () => {
+  const addSystem = () => {
     setPromptTemplate(prev => ({
       ...prev,
       inputs: [
         ...prev.inputs, 
         {
-          id: `text-${Date.now()}`,
-          type: 'text',
+          id: `system-${Date.now()}`,
+          type: 'system',
           content: ""
         }
       ]
@@ -245,6 +514,43 @@ function PromptTemplateComponent({
     }));
   };
 
+  const updateName = (inputId: string, value: string) => {
+    setPromptTemplate(prev => ({
+      ...prev,
+      inputs: prev.inputs.map(input => 
+        input.id === inputId 
+          ? { ...input, name: value }
+          : input
+      )
+    }));
+  };
+
+  const updateField = (inputId: string, field: TemplateField) => {
+    setPromptTemplate(prev => ({
+      ...prev,
+      inputs: prev.inputs.map(input =>
+        input.id === inputId
+          // A value of another type is kept, and shows as invalid until it's changed
+          ? { ...input, field, attachments: field.type === 'file' ? input.attachments : undefined }
+          : input
+      )
+    }));
+  };
+
+  const updateAttachments = (inputId: string, attachments: Attachment[]) => {
+    setPromptTemplate(prev => ({
+      ...prev,
+      inputs: prev.inputs.map(input =>
+        input.id === inputId
+          ? { ...input, attachments }
+          : input
+      )
+    }));
+  };
+
+  const inputNames = getInputBlockNames(promptTemplate);
+  const errors = getTemplateErrors(promptTemplate);
+
   return (
     <section className="mb-4" id="prompt-template">
       <div className="rounded-lg p-3 bg-card text-card-foreground shadow-sm hover:shadow-md transition-all duration-200 relative">
@@ -266,8 +572,13 @@ function PromptTemplateComponent({
                 <SortableTemplateInput
                   key={input.id}
                   input={input}
+                  variableName={inputNames.get(input.id)}
+                  error={errors[inputNames.get(input.id) ?? '']}
                   canDelete={promptTemplate.inputs.length > 1}
                   onContentChange={(value) => updateInput(input.id, value)}
+                  onNameChange={(value) => updateName(input.id, value)}
+                  onFieldChange={(field) => updateField(input.id, field)}
+                  onAttachmentsChange={(attachments) => updateAttachments(input.id, attachments)}
                   onDelete={() => removeInput(input.id)}
                 />
               ))}
@@ -297,6 +608,17 @@ function PromptTemplateComponent({
               <Type className="h-3 w-3" />
               <span>Add text</span>
             </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs font-medium text-muted-foreground hover:text-foreground flex items-center gap-1.5 opacity-80 hover:opacity-100 transition-all rounded-full px-3 hover:bg-muted/80"
+              onClick={addSystem}
+              title="Add a system instruction, sent separately from the conversation"
+            >
+              <Bot className="h-3 w-3" />
+              <span>Add system</span>
+            </Button>
           </div>
         </div>
       </div>
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, PlusCircle, X } from "lucide-react";
+import { PROVIDERS, PROVIDER_IDS, ProviderConfig, ProviderId } from "@/lib/providers";
+import { MODELS, Model } from "@/lib/models";
+
+export type ProviderSettingsValues = {
+  providerConfigs: Record<ProviderId, ProviderConfig>;
+  customModels: Model[];
+  modelProviders: Record<string, ProviderId>;
+};
+
+interface ProviderSettingsProps extends ProviderSettingsValues {
+  onSave: (values: ProviderSettingsValues) => void;
+  onCancel: () => void;
+}
+
+// Small dropdown for picking a provider
+const ProviderSelect = ({
+  value,
+  onChange
+}: {
+  value: ProviderId;
+  onChange: (provider: ProviderId) => void;
+}) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 px-2.5 text-xs flex items-center gap-1 bg-background/70 border-border/20 flex-shrink-0"
+      >
+        {PROVIDERS[value].displayName}
+        <ChevronDown className="h-3 w-3 opacity-70" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-44">
+      {PROVIDER_IDS.map(providerId => (
+        <DropdownMenuItem
+          key={providerId}
+          onSelect={() => onChange(providerId)}
+          className={`text-xs ${providerId === value ? 'font-medium' : ''}`}
+        >
+          {PROVIDERS[providerId].displayName}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+// Settings form for provider keys, endpoints and the provider used by each model.
+// Rendered inside a DialogContent; edits stay local until saved.
+function ProviderSettings({
+  providerConfigs,
+  customModels,
+  modelProviders,
+  onSave,
+  onCancel
+}: ProviderSettingsProps) {
+  const [tempConfigs, setTempConfigs] = useState(providerConfigs);
+  const [tempCustomModels, setTempCustomModels] = useState(customModels);
+  const [tempModelProviders, setTempModelProviders] = useState(modelProviders);
+  const [newModelName, setNewModelName] = useState("");
+  const [newModelProvider, setNewModelProvider] = useState<ProviderId>('openai');
+
+  const allModels = [...MODELS, ...tempCustomModels];
+
+  const updateConfig = (providerId: ProviderId, changes: Partial<ProviderConfig>) => {
+    setTempConfigs(prev => ({
+      ...prev,
+      [providerId]: { ...prev[providerId], ...changes }
+    }));
+  };
+
+  const setModelProvider = (model: Model, provider: ProviderId) => {
+    // Custom models store their provider directly
+    if (tempCustomModels.some(m => m.name === model.name)) {
+      setTempCustomModels(prev => prev.map(m => m.name === model.name ? { ...m, provider } : m));
+      return;
+    }
+    setTempModelProviders(prev => ({ ...prev, [model.name]: provider }));
+  };
+
+  const addCustomModel = () => {
+    const name = newModelName.trim();
+    if (!name || allModels.some(m => m.name === name)) return;
+    setTempCustomModels(prev => [...prev, { name, displayName: name, provider: newModelProvider }]);
+    setNewModelName("");
+  };
+
+  const removeCustomModel = (name: string) => {
+    setTempCustomModels(prev => prev.filter(m => m.name !== name));
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Settings</DialogTitle>
+        <DialogDescription>
+          Configure API keys and the provider used by each model. This will be saved in your browser's local storage.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[60vh] overflow-y-auto scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent pr-1 space-y-5">
+        {/* Provider connection settings */}
+        <div className="space-y-4">
+          {PROVIDER_IDS.map(providerId => {
+            const provider = PROVIDERS[providerId];
+            return (
+              <div key={providerId} className="space-y-2">
+                <div className="text-sm font-medium">{provider.displayName}</div>
+                <Input
+                  value={tempConfigs[providerId].apiKey}
+                  onChange={(e) => updateConfig(providerId, { apiKey: e.target.value })}
+                  placeholder={provider.requiresApiKey ? "Enter API key" : "API key (optional for local servers)"}
+                  className="w-full"
+                  type="password"
+                />
+                <Input
+                  value={tempConfigs[providerId].baseUrl}
+                  onChange={(e) => updateConfig(providerId, { baseUrl: e.target.value })}
+                  placeholder={provider.defaultBaseUrl}
+                  className="w-full text-xs"
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Provider per model */}
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Models</div>
+          {allModels.map(model => {
+            const isCustom = tempCustomModels.some(m => m.name === model.name);
+            return (
+              <div key={model.name} className="flex items-center gap-2">
+                <span className="text-xs truncate flex-1" title={model.name}>{model.displayName}</span>
+                <ProviderSelect
+                  value={tempModelProviders[model.name] || model.provider}
+                  onChange={(provider) => setModelProvider(model, provider)}
+                />
+                {isCustom ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-full"
+                    onClick={() => removeCustomModel(model.name)}
+                    title="Remove custom model"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                ) : (
+                  <div className="w-7 flex-shrink-0" />
+                )}
+              </div>
+            );
+          })}
+
+          {/* Add a custom model */}
+          <div className="flex items-center gap-2 pt-1">
+            <Input
+              value={newModelName}
+              onChange={(e) => setNewModelName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addCustomModel();
+                }
+              }}
+              placeholder="Custom model id, e.g. llama3.1"
+              className="h-7 text-xs flex-1"
+            />
+            <ProviderSelect value={newModelProvider} onChange={setNewModelProvider} />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-muted-foreground hover:text-foreground rounded-full"
+              onClick={addCustomModel}
+              disabled={!newModelName.trim()}
+              title="Add custom model"
+            >
+              <PlusCircle className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onSave({
+          providerConfigs: tempConfigs,
+          customModels: tempCustomModels,
+          modelProviders: tempModelProviders
+        })}>Save Settings</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default ProviderSettings;
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DEFAULT_SAFETY_SETTINGS,
+  HARM_BLOCK_THRESHOLDS,
+  HARM_CATEGORIES,
+  HarmBlockThreshold,
+  SafetySettings
+} from "@/lib/safety-settings";
+
+interface SafetySettingsEditorProps {
+  settings: SafetySettings;
+  providerName: string;
+  isSupported: boolean; // Only Gemini accepts safety settings
+  onSave: (settings: SafetySettings) => void;
+  onCancel: () => void;
+}
+
+// Form for the project's safety thresholds, one per harm category.
+// Rendered inside a DialogContent; edits stay local until saved.
+function SafetySettingsEditor({
+  settings,
+  providerName,
+  isSupported,
+  onSave,
+  onCancel
+}: SafetySettingsEditorProps) {
+  const [tempSettings, setTempSettings] = useState(settings);
+
+  const updateThreshold = (category: keyof SafetySettings, threshold: string) => {
+    setTempSettings(prev => {
+      const next = { ...prev };
+      if (threshold) {
+        next[category] = threshold as HarmBlockThreshold;
+      } else {
+        delete next[category];
+      }
+      return next;
+    });
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Safety Settings</DialogTitle>
+        <DialogDescription>
+          How readily each harm category blocks a prompt or reply. Categories left on default use the model's own threshold.
+        </DialogDescription>
+      </DialogHeader>
+
+      {!isSupported && (
+        <div className="text-xs text-amber-500">
+          {providerName} doesn't accept safety settings - they are only sent to Gemini models.
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {HARM_CATEGORIES.map(({ value: category, label }) => (
+          <div key={category} className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium">{label}</span>
+            <select
+              value={tempSettings[category] ?? ''}
+              onChange={(e) => updateThreshold(category, e.target.value)}
+              className="h-8 w-52 rounded-md border border-input bg-transparent dark:bg-input/30 px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            >
+              <option value="">Model default</option>
+              {HARM_BLOCK_THRESHOLDS.map(threshold => (
+                <option key={threshold.value} value={threshold.value}>{threshold.label}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          className="mr-auto text-muted-foreground"
+          onClick={() => setTempSettings(DEFAULT_SAFETY_SETTINGS)}
+        >
+          Reset to defaults
+        </Button>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onSave(tempSettings)}>Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default SafetySettingsEditor;
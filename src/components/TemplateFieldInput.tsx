@@ -0,0 +1,111 @@
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import Attachments from "@/components/Attachments";
+import type { Attachment } from "@/lib/attachments";
+import { TemplateField, getFieldOptions } from "@/lib/template-fields";
+
+interface TemplateFieldInputProps {
+  field: TemplateField;
+  value: string;
+  attachments?: Attachment[];
+  onChange: (value: string) => void;
+  onAttachmentsChange: (attachments: Attachment[]) => void;
+  invalid?: boolean;
+  id?: string;
+  autoFocus?: boolean;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLElement>) => void;
+  placeholder?: string;
+}
+
+const invalidClass = (invalid?: boolean) => invalid ? 'border-destructive focus:border-destructive' : '';
+
+// The value control for a template field, by field type.
+// Used in the template editor and in the form shown when the template is run.
+function TemplateFieldInput({
+  field,
+  value,
+  attachments = [],
+  onChange,
+  onAttachmentsChange,
+  invalid,
+  id,
+  autoFocus,
+  onKeyDown,
+  placeholder
+}: TemplateFieldInputProps) {
+  switch (field.type) {
+    case 'boolean':
+      return (
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === 'true'}
+            onChange={(e) => onChange(e.target.checked ? 'true' : 'false')}
+            onKeyDown={onKeyDown}
+            autoFocus={autoFocus}
+            aria-invalid={invalid}
+            className="h-3.5 w-3.5 accent-primary"
+          />
+          <span className={invalid ? 'text-destructive' : 'text-muted-foreground'}>{value === 'true' ? 'Yes' : 'No'}</span>
+        </label>
+      );
+    case 'select':
+      return (
+        <select
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+          autoFocus={autoFocus}
+          aria-invalid={invalid}
+          className={`h-8 w-full rounded-lg border bg-background px-2 text-sm text-foreground focus:outline-none ${invalidClass(invalid)}`}
+        >
+          <option value="">Choose...</option>
+          {getFieldOptions(field).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+          {/* Keep a value whose option was removed visible, so it can be seen to be invalid */}
+          {value && !getFieldOptions(field).includes(value) && <option value={value}>{value}</option>}
+        </select>
+      );
+    case 'file':
+      return (
+        <div className={`rounded-lg border px-2 py-1 ${invalid ? 'border-destructive' : 'border-border/40'}`}>
+          <Attachments attachments={attachments} onChange={onAttachmentsChange} size="sm" />
+        </div>
+      );
+    case 'number':
+    case 'text':
+      return (
+        <Input
+          id={id}
+          type={field.type === 'number' ? 'number' : 'text'}
+          value={value}
+          min={field.type === 'number' ? field.min : undefined}
+          max={field.type === 'number' ? field.max : undefined}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+          autoFocus={autoFocus}
+          aria-invalid={invalid}
+          placeholder={placeholder}
+          className={`h-8 text-sm ${invalidClass(invalid)}`}
+        />
+      );
+    default:
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+          autoFocus={autoFocus}
+          aria-invalid={invalid}
+          placeholder={placeholder}
+          className={`min-h-[60px] max-h-[300px] text-sm resize-y ${invalidClass(invalid)}`}
+        />
+      );
+  }
+}
+
+export default TemplateFieldInput;
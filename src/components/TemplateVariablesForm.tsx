@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Play } from "lucide-react";
+import TemplateFieldInput from "@/components/TemplateFieldInput";
+import { TemplateVariable, validateTemplateVariable } from "@/components/PromptTemplate";
+import type { Attachment } from "@/lib/attachments";
+import { TEMPLATE_FIELD_TYPES } from "@/lib/template-fields";
+import { TemplateVariableValues, toPlaceholder } from "@/lib/template-variables";
+
+interface TemplateVariablesFormProps {
+  variables: TemplateVariable[];
+  showErrorsOnOpen?: boolean; // The template already has invalid fields - flag them right away
+  onSubmit: (values: TemplateVariableValues, files: Record<string, Attachment[]>) => void;
+  onCancel: () => void;
+}
+
+// Form generated from the template's variables, shown when the template is run.
+// Rendered inside a DialogContent; starts from the values used last time.
+// Fields that break their rules are highlighted and keep the template from running.
+function TemplateVariablesForm({
+  variables,
+  showErrorsOnOpen = false,
+  onSubmit,
+  onCancel
+}: TemplateVariablesFormProps) {
+  const [values, setValues] = useState<TemplateVariableValues>(
+    () => Object.fromEntries(variables.map(variable => [variable.name, variable.value]))
+  );
+  const [files, setFiles] = useState<Record<string, Attachment[]>>(
+    () => Object.fromEntries(variables
+      .filter(variable => variable.field?.type === 'file')
+      .map(variable => [variable.name, variable.attachments || []]))
+  );
+  // Errors show once a run has been tried, so empty required fields don't start out red
+  const [showErrors, setShowErrors] = useState(showErrorsOnOpen);
+
+  const errors = Object.fromEntries(variables.map(variable => [
+    variable.name,
+    validateTemplateVariable(variable, values[variable.name] ?? "", files[variable.name])
+  ]));
+  const errorCount = Object.values(errors).filter(error => error !== null).length;
+
+  const submit = () => {
+    if (errorCount > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onSubmit(values, files);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    // Ctrl/Cmd+Enter runs from any field
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Run Template</DialogTitle>
+        <DialogDescription>
+          Fill in the template's variables. The values are kept in the template for the following messages.
+        </DialogDescription>
+      </DialogHeader>
+
+      <form
+        className="space-y-3 max-h-[60vh] overflow-y-auto scrollbar-thin scrollbar-thumb-border/50 scrollbar-track-transparent"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        {variables.map((variable, index) => {
+          const id = `template-variable-${variable.name}`;
+          const error = showErrors ? errors[variable.name] : null;
+          return (
+            <div key={variable.name} className="space-y-1">
+              <label htmlFor={id} className="flex items-center gap-2 text-sm font-medium">
+                <span className="font-mono">{toPlaceholder(variable.name)}</span>
+                {variable.field?.required && <span className="text-destructive">*</span>}
+                <span className="text-[10px] font-normal text-muted-foreground">
+                  {variable.field
+                    ? TEMPLATE_FIELD_TYPES.find(type => type.value === variable.field?.type)?.label
+                    : 'placeholder in text'}
+                </span>
+              </label>
+              {variable.field ? (
+                <TemplateFieldInput
+                  id={id}
+                  field={variable.field}
+                  value={values[variable.name] ?? ""}
+                  attachments={files[variable.name]}
+                  onChange={(value) => setValues(prev => ({ ...prev, [variable.name]: value }))}
+                  onAttachmentsChange={(attachments) => setFiles(prev => ({ ...prev, [variable.name]: attachments }))}
+                  invalid={!!error}
+                  autoFocus={index === 0}
+                  onKeyDown={handleKeyDown}
+                />
+              ) : (
+                <Textarea
+                  id={id}
+                  value={values[variable.name] ?? ""}
+                  onChange={(e) => setValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                  onKeyDown={handleKeyDown}
+                  autoFocus={index === 0}
+                  className="min-h-[60px] max-h-[200px] text-sm resize-y"
+                />
+              )}
+              {error && <div className="text-xs text-destructive">{error}</div>}
+            </div>
+          );
+        })}
+      </form>
+
+      <DialogFooter>
+        {showErrors && errorCount > 0 && (
+          <span className="mr-auto self-center text-xs text-destructive">
+            {errorCount} field{errorCount === 1 ? ' needs' : 's need'} fixing
+          </span>
+        )}
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={submit} className="gap-1.5">
+          <Play className="h-3.5 w-3.5" />
+          Run
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default TemplateVariablesForm;
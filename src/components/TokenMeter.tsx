@@ -0,0 +1,72 @@
+import { memo } from 'react';
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import type { TokenCounts } from "@/hooks/use-token-count";
+import { TOKEN_SECTIONS, TOKEN_SECTION_LABELS, TokenSection, formatTokenCount } from "@/lib/tokens";
+
+// Share of the context window above which the meter turns amber
+const WARNING_RATIO = 0.9;
+
+const SECTION_COLORS: Record<TokenSection, string> = {
+  examples: 'bg-sky-500',
+  template: 'bg-violet-500',
+  history: 'bg-emerald-500',
+  draft: 'bg-amber-500',
+};
+
+interface TokenMeterProps {
+  counts: TokenCounts;
+  inputTokenLimit: number;
+}
+
+// Context budget meter - one bar segment per payload section
+function TokenMeterComponent({ counts, inputTokenLimit }: TokenMeterProps) {
+  const ratio = counts.total / inputTokenLimit;
+  const isOverLimit = ratio > 1;
+  const isNearLimit = ratio > WARNING_RATIO;
+
+  return (
+    <div className="flex items-center gap-3 text-[11px] text-muted-foreground">
+      {/* Segmented bar */}
+      <div
+        className="h-1.5 w-32 rounded-full bg-muted/50 overflow-hidden flex flex-shrink-0"
+        title={`${Math.round(ratio * 1000) / 10}% of the context window`}
+      >
+        {TOKEN_SECTIONS.map(section => (
+          <div
+            key={section}
+            className={SECTION_COLORS[section]}
+            style={{ width: `${Math.min(100, (counts.sections[section] / inputTokenLimit) * 100)}%` }}
+          />
+        ))}
+      </div>
+
+      {/* Totals */}
+      <span className={isOverLimit ? 'text-destructive font-medium' : isNearLimit ? 'text-amber-500' : ''}>
+        {counts.isEstimate && '≈'}{formatTokenCount(counts.total)} / {formatTokenCount(inputTokenLimit)} tokens
+      </span>
+
+      {isNearLimit && (
+        <span className={`flex items-center gap-1 ${isOverLimit ? 'text-destructive' : 'text-amber-500'}`}>
+          <AlertTriangle className="h-3 w-3" />
+          {isOverLimit ? 'Exceeds context window' : 'Near context limit'}
+        </span>
+      )}
+
+      {/* Legend */}
+      <div className="hidden md:flex items-center gap-2.5 ml-auto">
+        {TOKEN_SECTIONS.map(section => (
+          <span key={section} className="flex items-center gap-1">
+            <span className={`h-1.5 w-1.5 rounded-full ${SECTION_COLORS[section]}`} />
+            {TOKEN_SECTION_LABELS[section]} {formatTokenCount(counts.sections[section])}
+          </span>
+        ))}
+        {counts.isCounting && <RefreshCw className="h-3 w-3 animate-spin" />}
+      </div>
+    </div>
+  );
+}
+
+// Memoize the component to prevent unnecessary re-renders
+const TokenMeter = memo(TokenMeterComponent);
+
+export default TokenMeter;
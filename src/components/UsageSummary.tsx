@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Usage } from "@/lib/providers";
+import { ModelPrice, estimateCost, formatCost } from "@/lib/pricing";
+import { formatTokenCount } from "@/lib/tokens";
+
+// Usage of one model across the conversation
+export type ModelUsage = {
+  model: string;
+  requests: number;
+  usage: Usage;
+};
+
+interface UsageSummaryProps {
+  modelUsage: ModelUsage[];
+  prices: Record<string, ModelPrice>;
+  onSavePrices: (prices: Record<string, ModelPrice>) => void;
+  onCancel: () => void;
+}
+
+// Price input in USD per million tokens - empty means unknown
+const PriceInput = ({
+  value,
+  onChange
+}: {
+  value?: number;
+  onChange: (value: number | undefined) => void;
+}) => (
+  <Input
+    type="number"
+    min={0}
+    step={0.01}
+    value={value ?? ''}
+    onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+    placeholder="-"
+    className="h-7 w-20 text-xs"
+  />
+);
+
+// Project usage totals per model, with an editable price table for the cost estimate.
+// Rendered inside a DialogContent; price edits stay local until saved.
+function UsageSummary({
+  modelUsage,
+  prices,
+  onSavePrices,
+  onCancel
+}: UsageSummaryProps) {
+  const [tempPrices, setTempPrices] = useState(prices);
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: number | undefined) => {
+    setTempPrices(prev => {
+      const price = prev[model] || { input: 0, output: 0 };
+      return { ...prev, [model]: { ...price, [key]: value ?? 0 } };
+    });
+  };
+
+  const totalCost = modelUsage.reduce((sum, row) => {
+    const price = tempPrices[row.model];
+    return price ? sum + estimateCost(row.usage, price) : sum;
+  }, 0);
+  const hasUnpricedModels = modelUsage.some(row => !tempPrices[row.model]);
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Usage</DialogTitle>
+        <DialogDescription>
+          Tokens reported by the providers for this conversation. Costs are estimates from the prices below (USD per million tokens).
+        </DialogDescription>
+      </DialogHeader>
+
+      {modelUsage.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No usage recorded yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr className="border-b border-border/40">
+                <th className="text-left font-medium py-1.5 pr-2">Model</th>
+                <th className="text-right font-medium py-1.5 px-2">Requests</th>
+                <th className="text-right font-medium py-1.5 px-2">Input</th>
+                <th className="text-right font-medium py-1.5 px-2">Output</th>
+                <th className="text-right font-medium py-1.5 px-2">Thoughts</th>
+                <th className="text-left font-medium py-1.5 px-2">$ in / out</th>
+                <th className="text-right font-medium py-1.5 pl-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modelUsage.map(row => {
+                const price = tempPrices[row.model];
+                return (
+                  <tr key={row.model} className="border-b border-border/20">
+                    <td className="py-1.5 pr-2 font-mono truncate max-w-40" title={row.model}>{row.model}</td>
+                    <td className="text-right py-1.5 px-2">{row.requests}</td>
+                    <td className="text-right py-1.5 px-2">{formatTokenCount(row.usage.promptTokens)}</td>
+                    <td className="text-right py-1.5 px-2">{formatTokenCount(row.usage.outputTokens)}</td>
+                    <td className="text-right py-1.5 px-2">
+                      {row.usage.thoughtTokens !== undefined ? formatTokenCount(row.usage.thoughtTokens) : '-'}
+                    </td>
+                    <td className="py-1.5 px-2">
+                      <div className="flex items-center gap-1">
+                        <PriceInput value={price?.input} onChange={(value) => updatePrice(row.model, 'input', value)} />
+                        <PriceInput value={price?.output} onChange={(value) => updatePrice(row.model, 'output', value)} />
+                      </div>
+                    </td>
+                    <td className="text-right py-1.5 pl-2">{price ? formatCost(estimateCost(row.usage, price)) : '-'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex justify-between items-baseline mt-3 text-sm">
+            <span className="text-xs text-muted-foreground">
+              {hasUnpricedModels && 'Models without a price are left out of the total.'}
+            </span>
+            <span className="font-medium">Total ≈ {formatCost(totalCost)}</span>
+          </div>
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onSavePrices(tempPrices)}>Save prices</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export default UsageSummary;
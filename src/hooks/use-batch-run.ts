@@ -0,0 +1,129 @@
+import * as React from "react"
+import type { Usage } from "@/lib/providers"
+import {
+  BatchColumnMapping,
+  BatchDataset,
+  BatchRow,
+  BatchRowResult,
+  MAX_BATCH_ATTEMPTS,
+  getBackoffDelay,
+  isRateLimitError,
+  sleep
+} from "@/lib/batch"
+
+// Sends one row and resolves with the reply - provided by the app, which owns the payload builder
+export type BatchRowRunner = (
+  row: BatchRow,
+  mapping: BatchColumnMapping,
+  signal: AbortSignal
+) => Promise<{ text: string; usage?: Usage }>
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+// State of a batch run: the imported dataset, its column mapping and a result per row.
+// Lives in the app rather than the dialog, so a run keeps going while the dialog is closed.
+export function useBatchRun(runRow: BatchRowRunner) {
+  const [dataset, setDataset] = React.useState<BatchDataset | null>(null)
+  const [mapping, setMapping] = React.useState<BatchColumnMapping>({})
+  const [results, setResults] = React.useState<BatchRowResult[]>([])
+  const [isRunning, setIsRunning] = React.useState(false)
+  const abortControllerRef = React.useRef<AbortController | null>(null)
+
+  // Always call the latest runner - it closes over the current template and settings
+  const runRowRef = React.useRef(runRow)
+  runRowRef.current = runRow
+
+  const updateResult = (index: number, changes: Partial<BatchRowResult>) => {
+    setResults(prev => prev.map((result, i) => i === index ? { ...result, ...changes } : result))
+  }
+
+  const loadDataset = React.useCallback((nextDataset: BatchDataset, nextMapping: BatchColumnMapping) => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setIsRunning(false)
+    setDataset(nextDataset)
+    setMapping(nextMapping)
+    setResults(nextDataset.rows.map(() => ({ status: 'pending', attempts: 0 })))
+  }, [])
+
+  // Run the given rows, at most `concurrency` at a time. Rate-limited requests are retried with backoff.
+  const run = React.useCallback(async (indices: number[], concurrency: number) => {
+    if (!dataset || indices.length === 0) return
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const { signal } = abortController
+    const queue = [...indices]
+
+    setResults(prev => prev.map((result, i) =>
+      indices.includes(i) ? { status: 'pending', attempts: 0 } : result))
+    setIsRunning(true)
+
+    const runOne = async (index: number) => {
+      const start = performance.now()
+      for (let attempt = 1; ; attempt++) {
+        updateResult(index, { status: 'running', attempts: attempt })
+        try {
+          const attemptStart = performance.now()
+          const result = await runRowRef.current(dataset.rows[index], mapping, signal)
+          updateResult(index, {
+            status: 'done',
+            output: result.text,
+            usage: result.usage,
+            error: undefined,
+            latencyMs: Math.round(performance.now() - attemptStart)
+          })
+          return
+        } catch (error) {
+          if (signal.aborted) {
+            updateResult(index, { status: 'pending', error: undefined })
+            return
+          }
+          if (!isRateLimitError(error) || attempt >= MAX_BATCH_ATTEMPTS) {
+            updateResult(index, {
+              status: 'error',
+              error: errorMessage(error),
+              latencyMs: Math.round(performance.now() - start)
+            })
+            return
+          }
+          const delay = getBackoffDelay(attempt)
+          updateResult(index, { error: `Rate limited - retrying in ${Math.ceil(delay / 1000)}s` })
+          try {
+            await sleep(delay, signal)
+          } catch {
+            updateResult(index, { status: 'pending', error: undefined })
+            return
+          }
+        }
+      }
+    }
+
+    // Each worker takes the next row until the queue is empty
+    const worker = async () => {
+      while (queue.length > 0 && !signal.aborted) {
+        await runOne(queue.shift()!)
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+
+    if (abortControllerRef.current === abortController) {
+      abortControllerRef.current = null
+      setIsRunning(false)
+    }
+  }, [dataset, mapping])
+
+  const stop = React.useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setIsRunning(false)
+  }, [])
+
+  const clear = React.useCallback(() => {
+    stop()
+    setDataset(null)
+    setMapping({})
+    setResults([])
+  }, [stop])
+
+  return { dataset, mapping, setMapping, results, isRunning, loadDataset, run, stop, clear }
+}
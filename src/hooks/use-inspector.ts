@@ -0,0 +1,7 @@
+import * as React from "react"
+import { getInspectorEntries, subscribeInspector } from "@/lib/inspector"
+
+// Recorded API calls, newest first
+export function useInspectorEntries() {
+  return React.useSyncExternalStore(subscribeInspector, getInspectorEntries)
+}
@@ -0,0 +1,109 @@
+import * as React from "react"
+import { PROVIDERS, PROVIDER_IDS, ProviderConfig, ProviderId } from "@/lib/providers"
+import type { Model } from "@/lib/models"
+
+export const MODEL_CACHE_STORAGE_KEY = 'few-shot-chatbot-model-cache'
+
+// Fetched lists are reused for a day before asking the provider again
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000
+
+type CachedModelList = {
+  fetchedAt: number
+  connectionKey: string // Key + base URL the list was fetched with
+  models: Model[]
+}
+
+type ModelCache = Partial<Record<ProviderId, CachedModelList>>
+
+const loadCache = (): ModelCache => {
+  try {
+    const savedCache = localStorage.getItem(MODEL_CACHE_STORAGE_KEY)
+    return savedCache ? JSON.parse(savedCache) : {}
+  } catch (error) {
+    console.error("Failed to load model cache from localStorage:", error)
+    return {}
+  }
+}
+
+const saveCache = (cache: ModelCache) => {
+  try {
+    localStorage.setItem(MODEL_CACHE_STORAGE_KEY, JSON.stringify(cache))
+  } catch (error) {
+    console.error("Failed to save model cache to localStorage:", error)
+  }
+}
+
+// Identifies the connection a list belongs to, without storing the key itself
+const getConnectionKey = (config: ProviderConfig) =>
+  `${config.baseUrl}|${config.apiKey.length}|${config.apiKey.slice(-4)}`
+
+// A provider is worth asking once it has a key, or points at a custom (local) server
+const isProviderReachable = (providerId: ProviderId, config: ProviderConfig) =>
+  !!config.apiKey || config.baseUrl !== PROVIDERS[providerId].defaultBaseUrl
+
+// Models available from every configured provider, cached in localStorage
+export function useModelList(providerConfigs: Record<ProviderId, ProviderConfig>) {
+  const [cache, setCache] = React.useState<ModelCache>(loadCache)
+  const [isRefreshing, setIsRefreshing] = React.useState(false)
+  const [errors, setErrors] = React.useState<Partial<Record<ProviderId, string>>>({})
+
+  const fetchModelLists = React.useCallback(async (force: boolean, signal?: AbortSignal) => {
+    const current = loadCache()
+    const stale = PROVIDER_IDS.filter(providerId => {
+      const config = providerConfigs[providerId]
+      if (!isProviderReachable(providerId, config)) return false
+      const cached = current[providerId]
+      return force
+        || !cached
+        || cached.connectionKey !== getConnectionKey(config)
+        || Date.now() - cached.fetchedAt > CACHE_TTL_MS
+    })
+    if (stale.length === 0) return
+
+    setIsRefreshing(true)
+    const nextErrors: Partial<Record<ProviderId, string>> = {}
+
+    await Promise.all(stale.map(async providerId => {
+      const config = providerConfigs[providerId]
+      try {
+        const models = await PROVIDERS[providerId].listModels(config, signal)
+        current[providerId] = { fetchedAt: Date.now(), connectionKey: getConnectionKey(config), models }
+      } catch (error) {
+        if (signal?.aborted) return
+        console.error(`Failed to list ${providerId} models:`, error)
+        nextErrors[providerId] = error instanceof Error ? error.message : String(error)
+      }
+    }))
+
+    if (signal?.aborted) return
+    saveCache(current)
+    setCache({ ...current })
+    setErrors(nextErrors)
+    setIsRefreshing(false)
+  }, [providerConfigs])
+
+  // Refresh stale lists whenever the connection settings change
+  React.useEffect(() => {
+    const abortController = new AbortController()
+    fetchModelLists(false, abortController.signal)
+    return () => {
+      abortController.abort()
+      setIsRefreshing(false)
+    }
+  }, [fetchModelLists])
+
+  // Only lists that still match the current connection settings
+  const models = React.useMemo(() => {
+    return PROVIDER_IDS.flatMap(providerId => {
+      const cached = cache[providerId]
+      const config = providerConfigs[providerId]
+      return cached && cached.connectionKey === getConnectionKey(config) && isProviderReachable(providerId, config)
+        ? cached.models
+        : []
+    })
+  }, [cache, providerConfigs])
+
+  const refresh = React.useCallback(() => fetchModelLists(true), [fetchModelLists])
+
+  return { models, isRefreshing, errors, refresh }
+}
@@ -0,0 +1,115 @@
+import * as React from "react"
+import type { ApiContent, Provider, ProviderConfig } from "@/lib/providers"
+import { TOKEN_SECTIONS, TokenSection, estimateContentTokens } from "@/lib/tokens"
+
+const COUNT_DEBOUNCE_MS = 800
+
+export type TokenCounts = {
+  sections: Record<TokenSection, number>
+  total: number
+  isEstimate: boolean // At least one section uses the local estimate
+  isCounting: boolean
+}
+
+type ExactCount = { key: string; count: number }
+
+// Exact counts already fetched, shared across renders and keyed by model + contents
+const countCache = new Map<string, number>()
+
+// Serialized contents, so unchanged sections aren't re-stringified on every keystroke
+const contentKeys = new WeakMap<ApiContent[], string>()
+const getContentKey = (contents: ApiContent[]) => {
+  let key = contentKeys.get(contents)
+  if (key === undefined) {
+    key = JSON.stringify(contents)
+    contentKeys.set(contents, key)
+  }
+  return key
+}
+
+// Token counts per payload section. Shows a local estimate immediately and replaces
+// it with the provider's exact count (debounced) when the provider supports counting.
+export function useTokenCount(
+  sections: Record<TokenSection, ApiContent[]>,
+  provider: Provider,
+  model: string,
+  config: ProviderConfig
+): TokenCounts {
+  const [exactCounts, setExactCounts] = React.useState<Partial<Record<TokenSection, ExactCount>>>({})
+  const [isCounting, setIsCounting] = React.useState(false)
+
+  // Stable keys so unchanged sections are neither re-estimated nor re-counted
+  const sectionKeys = React.useMemo(() => {
+    const keys = {} as Record<TokenSection, string>
+    TOKEN_SECTIONS.forEach(section => {
+      keys[section] = `${provider.id}|${model}|${getContentKey(sections[section])}`
+    })
+    return keys
+  }, [sections, provider.id, model])
+
+  const estimates = React.useMemo(() => {
+    const result = {} as Record<TokenSection, number>
+    TOKEN_SECTIONS.forEach(section => {
+      result[section] = estimateContentTokens(sections[section])
+    })
+    return result
+  }, [sections])
+
+  const canCount = !!provider.countTokens && (!provider.requiresApiKey || !!config.apiKey)
+
+  React.useEffect(() => {
+    if (!canCount || !navigator.onLine) return
+
+    const abortController = new AbortController()
+    const timer = setTimeout(async () => {
+      const pending = TOKEN_SECTIONS.filter(section => sections[section].length > 0)
+      setIsCounting(true)
+
+      await Promise.all(pending.map(async section => {
+        const key = sectionKeys[section]
+        try {
+          let count = countCache.get(key)
+          if (count === undefined) {
+            count = await provider.countTokens!(model, sections[section], config, abortController.signal)
+            countCache.set(key, count)
+          }
+          const exactCount = count
+          setExactCounts(prev => ({ ...prev, [section]: { key, count: exactCount } }))
+        } catch (error) {
+          // Offline or rejected - keep showing the local estimate
+          if (!abortController.signal.aborted) {
+            console.error(`Failed to count ${section} tokens:`, error)
+          }
+        }
+      }))
+
+      if (!abortController.signal.aborted) {
+        setIsCounting(false)
+      }
+    }, COUNT_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      abortController.abort()
+      setIsCounting(false)
+    }
+  }, [sectionKeys, canCount, config.apiKey, config.baseUrl])
+
+  return React.useMemo(() => {
+    const counts = {} as Record<TokenSection, number>
+    let isEstimate = false
+    TOKEN_SECTIONS.forEach(section => {
+      const exact = exactCounts[section]
+      if (sections[section].length === 0) {
+        counts[section] = 0
+      } else if (exact && exact.key === sectionKeys[section]) {
+        counts[section] = exact.count
+      } else {
+        counts[section] = estimates[section]
+        isEstimate = true
+      }
+    })
+    const total = TOKEN_SECTIONS.reduce((sum, section) => sum + counts[section], 0)
+    return { sections: counts, total, isEstimate, isCounting }
+  }, [exactCounts, estimates, sectionKeys, sections, isCounting])
+}
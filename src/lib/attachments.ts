@@ -0,0 +1,110 @@
+import type { ApiPart } from "@/lib/providers";
+
+// A file kept inline (base64) so it can be saved with the project and sent as `inlineData`
+export type Attachment = {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: string; // Base64, without the data URL prefix
+  size: number; // Bytes
+};
+
+// Per-file cap - attachments are stored in localStorage, which only holds about 5 MB
+export const MAX_ATTACHMENT_BYTES = 1024 * 1024;
+
+// Cap on all the files of one chat message together - about 2.7 MB once base64 encoded,
+// so a message with attachments still leaves room for the rest of the project
+export const MAX_MESSAGE_ATTACHMENTS_BYTES = 2 * 1024 * 1024;
+
+// File picker filter for the types every provider can take
+export const ATTACHMENT_ACCEPT = "image/png,image/jpeg,image/webp,image/gif,application/pdf,text/*,.md,.csv,.json";
+
+// Plain-text files whose browser mime type isn't text/*
+const TEXT_FILE_EXTENSIONS = /\.(md|markdown|csv|json|txt|log|ya?ml|xml)$/i;
+
+export const isImageAttachment = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+
+export const attachmentDataUrl = (attachment: Attachment) =>
+  `data:${attachment.mimeType};base64,${attachment.data}`;
+
+// Decode base64 file data back into a string (UTF-8)
+export const decodeBase64Text = (data: string): string => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Compact display, e.g. 512 B, 14.2 KB or 1.3 MB
+export const formatFileSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${+(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+// The mime type sent to the API, or undefined when the file type isn't supported
+const resolveMimeType = (file: File): string | undefined => {
+  if (file.type.startsWith('image/') || file.type === 'application/pdf') return file.type;
+  if (file.type.startsWith('text/')) return file.type;
+  // JSON, YAML and friends are sent as plain text
+  if (TEXT_FILE_EXTENSIONS.test(file.name)) return 'text/plain';
+  return undefined;
+};
+
+// Read a file into an attachment, rejecting unsupported types and files over the size cap
+export const readFileAsAttachment = (file: File): Promise<Attachment> => {
+  const mimeType = resolveMimeType(file);
+  if (!mimeType) {
+    return Promise.reject(new Error(`${file.name}: only images, PDFs and text files can be attached`));
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return Promise.reject(new Error(
+      `${file.name} is ${formatFileSize(file.size)} - attachments are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)}`
+    ));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({
+        id: `attachment-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        name: file.name || 'pasted-file',
+        mimeType,
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        size: file.size
+      });
+    };
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+};
+
+// Read several files, collecting per-file errors instead of failing the whole batch.
+// Files that would push the total (including `existing`) over `maxTotalBytes` are rejected.
+export const readFilesAsAttachments = async (
+  files: File[],
+  existing: Attachment[] = [],
+  maxTotalBytes = Infinity
+) => {
+  const results = await Promise.allSettled(files.map(readFileAsAttachment));
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+  let totalBytes = existing.reduce((sum, attachment) => sum + attachment.size, 0);
+
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      errors.push(String(result.reason?.message || result.reason));
+    } else if (totalBytes + result.value.size > maxTotalBytes) {
+      errors.push(`${result.value.name} doesn't fit - attachments are limited to ${formatFileSize(maxTotalBytes)} in total`);
+    } else {
+      totalBytes += result.value.size;
+      attachments.push(result.value);
+    }
+  });
+
+  return { attachments, errors };
+};
+
+// Gemini-style part for an attachment
+export const toInlineDataPart = (attachment: Attachment): ApiPart => ({
+  inlineData: { mimeType: attachment.mimeType, data: attachment.data }
+});
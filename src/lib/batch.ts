@@ -0,0 +1,238 @@
+import type { Usage } from "@/lib/providers";
+
+// Batch runs - the same examples and template over every row of a CSV or JSONL dataset
+
+export type BatchRow = Record<string, string>;
+
+export type BatchDataset = {
+  fileName: string;
+  columns: string[];
+  rows: BatchRow[];
+};
+
+// Where a column's value goes: '' (ignored), the user message, or a template variable by name
+export type BatchColumnTarget = string;
+export type BatchColumnMapping = Record<string, BatchColumnTarget>;
+
+export const MESSAGE_TARGET = '@message';
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'error';
+
+export type BatchRowResult = {
+  status: BatchRowStatus;
+  output?: string;
+  error?: string; // While running, the rate limit being waited out
+  attempts: number;
+  latencyMs?: number; // Of the successful attempt, or from the first attempt to the failure
+  usage?: Usage;
+};
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+// Attempts per row when the provider keeps rate limiting
+export const MAX_BATCH_ATTEMPTS = 6;
+
+// Headers that are blank or repeated get a name of their own
+const uniqueColumnNames = (headers: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const base = header.trim() || `column_${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+};
+
+// RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = "";
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error('A quoted field is never closed');
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines aren't rows
+  return records.filter(fields => fields.some(value => value.trim()));
+};
+
+const parseCsv = (text: string): Omit<BatchDataset, 'fileName'> => {
+  const [headers, ...records] = parseCsvRecords(text);
+  if (!headers) return { columns: [], rows: [] };
+  const columns = uniqueColumnNames(headers);
+  return {
+    columns,
+    rows: records.map(fields => Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? ""])))
+  };
+};
+
+// Values that aren't strings are kept as their JSON, so nested data survives the round trip
+const toCellText = (value: unknown): string =>
+  value === null || value === undefined ? "" : typeof value === 'string' ? value : JSON.stringify(value);
+
+const parseJsonl = (text: string): Omit<BatchDataset, 'fileName'> => {
+  const columns: string[] = [];
+  const objects: Record<string, unknown>[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} isn't valid JSON`);
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Line ${index + 1} isn't a JSON object`);
+    }
+    Object.keys(value).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+    objects.push(value as Record<string, unknown>);
+  });
+  return {
+    columns,
+    rows: objects.map(object => Object.fromEntries(columns.map(column => [column, toCellText(object[column])])))
+  };
+};
+
+// Parse a dataset file - JSONL by extension (or when it starts with an object), CSV otherwise
+export const parseDataset = (fileName: string, text: string): BatchDataset => {
+  const content = text.replace(/^\uFEFF/, '');
+  const isJsonl = /\.(jsonl|ndjson)$/i.test(fileName)
+    || (!/\.csv$/i.test(fileName) && content.trimStart().startsWith('{'));
+  const dataset = { fileName, ...(isJsonl ? parseJsonl(content) : parseCsv(content)) };
+  if (dataset.rows.length === 0) {
+    throw new Error(`${fileName} has no rows`);
+  }
+  return dataset;
+};
+
+// Columns named like a template variable fill it; a column named like a message is the user message
+const MESSAGE_COLUMN_NAMES = ['message', 'input', 'prompt', 'question', 'query', 'text'];
+
+export const autoMapColumns = (columns: string[], variableNames: string[]): BatchColumnMapping => {
+  const normalize = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  let hasMessage = false;
+  return Object.fromEntries(columns.map(column => {
+    const variable = variableNames.find(name => normalize(name) === normalize(column));
+    if (variable) return [column, variable];
+    if (!hasMessage && MESSAGE_COLUMN_NAMES.includes(normalize(column))) {
+      hasMessage = true;
+      return [column, MESSAGE_TARGET];
+    }
+    return [column, ''];
+  }));
+};
+
+// A row's template variable values and user message, by the column mapping
+export const applyColumnMapping = (
+  row: BatchRow,
+  mapping: BatchColumnMapping
+): { variables: Record<string, string>; message?: string } => {
+  const variables: Record<string, string> = {};
+  let message: string | undefined;
+  Object.entries(mapping).forEach(([column, target]) => {
+    if (target === MESSAGE_TARGET) {
+      message = row[column] ?? "";
+    } else if (target) {
+      variables[target] = row[column] ?? "";
+    }
+  });
+  return { variables, message };
+};
+
+// Too many requests, or the provider is overloaded - worth waiting and trying again
+export const isRateLimitError = (error: unknown): boolean =>
+  /API error: (429|503|529)\b/.test(error instanceof Error ? error.message : String(error));
+
+// Exponential backoff with jitter: about 1s, 2s, 4s... capped at 30s
+export const getBackoffDelay = (attempt: number): number =>
+  Math.min(30000, 1000 * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  // One signal spans a whole run, so the listener is removed once the timer fires
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Dataset rows with their results, as exported. Result columns are prefixed so they never
+// overwrite a dataset column, e.g. the expected `output` of an eval set.
+export const toResultRecords = (dataset: BatchDataset, results: BatchRowResult[]) =>
+  dataset.rows.map((row, index) => ({
+    ...row,
+    result_output: results[index]?.output ?? "",
+    result_status: results[index]?.status ?? 'pending',
+    result_error: results[index]?.status === 'error' ? results[index].error ?? "" : "",
+    result_latency_ms: results[index]?.latencyMs ?? "",
+  }));
+
+const toCsvField = (value: unknown): string => {
+  const text = toCellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (records: Record<string, unknown>[]): string => {
+  if (records.length === 0) return "";
+  const columns = Object.keys(records[0]);
+  return [columns, ...records.map(record => columns.map(column => record[column]))]
+    .map(fields => fields.map(toCsvField).join(','))
+    .join('\r\n');
+};
+
+export const toJsonl = (records: Record<string, unknown>[]): string =>
+  records.map(record => JSON.stringify(record)).join('\n');
+
+// Save text as a file through the browser's download
+export const downloadTextFile = (fileName: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,38 @@
+// Console diagnostics - off by default, toggled from the inspector panel
+
+export const DEBUG_LOGGING_STORAGE_KEY = 'few-shot-chatbot-debug-logging';
+
+const loadConsoleLogging = (): boolean => {
+  try {
+    return localStorage.getItem(DEBUG_LOGGING_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+let consoleLoggingEnabled = loadConsoleLogging();
+
+export const isConsoleLoggingEnabled = () => consoleLoggingEnabled;
+
+export const setConsoleLoggingEnabled = (enabled: boolean) => {
+  consoleLoggingEnabled = enabled;
+  try {
+    localStorage.setItem(DEBUG_LOGGING_STORAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error("Failed to save console logging setting to localStorage:", error);
+  }
+};
+
+// Debug logger function to standardize console logging format
+export const debugLog = (message: string, data?: any) => {
+  if (!consoleLoggingEnabled) return;
+  const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
+  console.log(`[${timestamp}] ${message}`, data ? data : '');
+};
+
+// Performance logger function to track function execution time
+export const logPerformance = (functionName: string, startTime: number) => {
+  if (!consoleLoggingEnabled) return;
+  const duration = performance.now() - startTime;
+  console.log(`[PERF] ${functionName} took ${duration.toFixed(2)}ms to execute`);
+};
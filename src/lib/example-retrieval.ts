@@ -0,0 +1,160 @@
+import type { Provider, ProviderConfig } from "@/lib/providers";
+
+// Example retrieval - instead of sending every active example, send the top-k
+// most similar to the current user message
+
+export type ExampleSelectionMode = 'all' | 'retrieval';
+export type RetrievalBackend = 'bm25' | 'embeddings';
+
+export type ExampleSelectionSettings = {
+  mode: ExampleSelectionMode;
+  topK: number;
+  backend: RetrievalBackend;
+  embeddingModel: string; // Empty for the provider's default
+};
+
+export const DEFAULT_EXAMPLE_SELECTION: ExampleSelectionSettings = {
+  mode: 'all',
+  topK: 5,
+  backend: 'bm25',
+  embeddingModel: '',
+};
+
+export const RETRIEVAL_BACKENDS: { value: RetrievalBackend; label: string; description: string }[] = [
+  {
+    value: 'bm25',
+    label: 'BM25',
+    description: 'Keyword overlap, ranked in the browser',
+  },
+  {
+    value: 'embeddings',
+    label: 'Embeddings',
+    description: "Meaning similarity, from the provider's embeddings endpoint",
+  },
+];
+
+export const MAX_TOP_K = 50;
+
+export type RetrievalDocument = { id: string; text: string };
+export type RankedDocument = { id: string; score: number };
+
+// Which examples a reply was generated with - labels are a snapshot, so the
+// record still reads after examples are edited or deleted
+export type ExampleRetrieval = {
+  backend: RetrievalBackend;
+  examples: { id: string; label: string; score: number }[];
+};
+
+// Lowercased words and numbers, in any script
+export const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// Sort by score, keeping the original order for ties, and keep the top k
+const topByScore = (ranked: RankedDocument[], topK: number): RankedDocument[] =>
+  ranked
+    .map((doc, index) => ({ doc, index }))
+    .sort((a, b) => b.doc.score - a.doc.score || a.index - b.index)
+    .slice(0, topK)
+    .map(({ doc }) => doc);
+
+// BM25 parameters - the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+export type Bm25Index = {
+  documents: { id: string; termCounts: Map<string, number>; length: number }[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+};
+
+export const buildBm25Index = (documents: RetrievalDocument[]): Bm25Index => {
+  const documentFrequencies = new Map<string, number>();
+  const indexed = documents.map(({ id, text }) => {
+    const terms = tokenize(text);
+    const termCounts = new Map<string, number>();
+    terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+    termCounts.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+    return { id, termCounts, length: terms.length };
+  });
+  const totalLength = indexed.reduce((sum, doc) => sum + doc.length, 0);
+  return {
+    documents: indexed,
+    documentFrequencies,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0
+  };
+};
+
+// The top k documents for the query. Always returns k documents (when there are that many),
+// so a query that matches nothing still gets the first examples.
+export const rankBm25 = (index: Bm25Index, query: string, topK: number): RankedDocument[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  const documentCount = index.documents.length;
+  const ranked = index.documents.map(doc => {
+    let score = 0;
+    queryTerms.forEach(term => {
+      const termCount = doc.termCounts.get(term);
+      if (!termCount) return;
+      const documentFrequency = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const lengthNorm = index.averageLength > 0 ? doc.length / index.averageLength : 1;
+      score += idf * (termCount * (K1 + 1)) / (termCount + K1 * (1 - B + B * lengthNorm));
+    });
+    return { id: doc.id, score };
+  });
+  return topByScore(ranked, topK);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Texts per embeddings request
+const EMBED_BATCH_SIZE = 100;
+
+// Vectors already fetched, keyed by provider, model and text - examples are only embedded once per session
+const embeddingCache = new Map<string, number[]>();
+
+// The top k documents by embedding similarity to the query
+export const rankByEmbeddings = async (
+  provider: Provider,
+  model: string,
+  config: ProviderConfig,
+  documents: RetrievalDocument[],
+  query: string,
+  topK: number,
+  signal?: AbortSignal
+): Promise<RankedDocument[]> => {
+  if (!provider.embed) {
+    throw new Error(`${provider.displayName} has no embeddings endpoint - switch example retrieval to BM25`);
+  }
+  // Nothing to compare against (e.g. a message with only attachments) - keep the first examples, as BM25 does
+  if (!query.trim()) {
+    return topByScore(documents.map(doc => ({ id: doc.id, score: 0 })), topK);
+  }
+  const cacheKey = (text: string) => `${provider.id}|${model}|${text}`;
+  // Empty texts are rejected by the endpoint - those documents score 0
+  const missing = [...new Set([query, ...documents.map(doc => doc.text)])]
+    .filter(text => text.trim() && !embeddingCache.has(cacheKey(text)));
+
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await provider.embed(model, batch, config, signal);
+    batch.forEach((text, j) => {
+      if (vectors[j]) embeddingCache.set(cacheKey(text), vectors[j]);
+    });
+  }
+
+  const queryVector = embeddingCache.get(cacheKey(query)) || [];
+  const ranked = documents.map(doc => ({
+    id: doc.id,
+    score: cosineSimilarity(queryVector, embeddingCache.get(cacheKey(doc.text)) || [])
+  }));
+  return topByScore(ranked, topK);
+};
@@ -0,0 +1,63 @@
+// Example schemas - the named fields an example is made of, e.g. Question / Context / Answer
+
+export type ExampleSchemaField = {
+  id: string; // Key of the field's value in an example; stays the same when the label is renamed
+  label: string;
+};
+
+export type ExampleSchema = {
+  id: string;
+  name: string;
+  fields: ExampleSchemaField[];
+  builtIn?: boolean; // Built-in schemas can't be edited or deleted
+};
+
+// The original two example types. Their field ids match the old firstField / secondField
+// (and attachment keys), so saved examples keep working.
+export const BUILT_IN_EXAMPLE_SCHEMAS: ExampleSchema[] = [
+  {
+    id: 'input-output',
+    name: 'Input-Output',
+    fields: [{ id: 'first', label: 'Input' }, { id: 'second', label: 'Output' }],
+    builtIn: true,
+  },
+  {
+    id: 'name-content',
+    name: 'Name-Content',
+    fields: [{ id: 'first', label: 'Name' }, { id: 'second', label: 'Content' }],
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_EXAMPLE_SCHEMA_ID = BUILT_IN_EXAMPLE_SCHEMAS[0].id;
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const createSchemaField = (label: string): ExampleSchemaField => ({ id: createId('field'), label });
+
+export const createExampleSchema = (name: string, labels: string[]): ExampleSchema => ({
+  id: createId('schema'),
+  name,
+  fields: labels.map(createSchemaField),
+});
+
+// Built-in schemas followed by the project's own
+export const getExampleSchemas = (customSchemas: ExampleSchema[]): ExampleSchema[] => [
+  ...BUILT_IN_EXAMPLE_SCHEMAS,
+  ...customSchemas,
+];
+
+// Unknown ids (e.g. a deleted schema) fall back to the default schema
+export const findExampleSchema = (schemas: ExampleSchema[], schemaId: string): ExampleSchema =>
+  schemas.find(schema => schema.id === schemaId) ||
+  BUILT_IN_EXAMPLE_SCHEMAS.find(schema => schema.id === DEFAULT_EXAMPLE_SCHEMA_ID)!;
+
+// Problems that block saving a schema, e.g. an empty or duplicate field label
+export const validateExampleSchema = (schema: ExampleSchema): string | null => {
+  if (!schema.name.trim()) return 'Give the type a name';
+  if (schema.fields.length === 0) return 'Add at least one field';
+  const labels = schema.fields.map(field => field.label.trim().toLowerCase());
+  if (labels.some(label => !label)) return 'Every field needs a label';
+  if (new Set(labels).size !== labels.length) return 'Field labels must be different';
+  return null;
+};
@@ -0,0 +1,40 @@
+// How the examples are laid out in the request
+export type ExampleSerialization = 'single-block' | 'alternating-turns' | 'xml-tagged';
+
+export const DEFAULT_EXAMPLE_SERIALIZATION: ExampleSerialization = 'single-block';
+
+export const EXAMPLE_SERIALIZATIONS: { value: ExampleSerialization; label: string; description: string }[] = [
+  {
+    value: 'single-block',
+    label: 'Single block',
+    description: 'All examples in one user message, with "Input:" / "Output:" labels',
+  },
+  {
+    value: 'alternating-turns',
+    label: 'Alternating turns',
+    description: 'Each example as a user turn followed by a model turn',
+  },
+  {
+    value: 'xml-tagged',
+    label: 'XML-tagged block',
+    description: 'All examples in one user message, wrapped in <example> tags',
+  },
+];
+
+// Tag name for a field label in the XML-tagged layout, e.g. "Input" -> "input".
+// Letters of any script are kept; names can't start with a digit (or "xml"), so those get a prefix.
+const toXmlTagName = (label: string) => {
+  const name = label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '') || 'field';
+  return /^(\p{N}|xml)/u.test(name) ? `field_${name}` : name;
+};
+
+// Tag names for the fields of one example - repeated names get a numbered suffix, e.g. "input_2"
+export const toXmlTagNames = (labels: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return labels.map(label => {
+    const base = toXmlTagName(label);
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+};
@@ -0,0 +1,109 @@
+import type { ProviderId } from "@/lib/providers";
+
+// Sampling and output settings sent with every request.
+// Unset values fall back to the model's own defaults.
+export type GenerationSettings = {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences: string[];
+  seed?: number;
+  thinkingBudget?: number; // Tokens the model may spend reasoning, for thinking models
+};
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  stopSequences: []
+};
+
+// Allowed ranges for a model's generation settings
+export type GenerationLimits = {
+  maxTemperature: number;
+  maxTopK?: number; // undefined when the API has no topK
+  maxOutputTokens: number;
+  maxStopSequences: number;
+  supportsSeed: boolean;
+  minThinkingBudget?: number;
+  maxThinkingBudget?: number; // undefined when the model has no thinking budget
+  thinkingExcludesSampling?: boolean; // Temperature, top P and top K aren't sent when a thinking budget is set
+};
+
+// Fallback limits per provider, for models that don't declare their own
+export const DEFAULT_GENERATION_LIMITS: Record<ProviderId, GenerationLimits> = {
+  gemini: { maxTemperature: 2, maxTopK: 40, maxOutputTokens: 8192, maxStopSequences: 5, supportsSeed: true },
+  openai: { maxTemperature: 2, maxOutputTokens: 16384, maxStopSequences: 4, supportsSeed: true },
+  anthropic: { maxTemperature: 1, maxTopK: 500, maxOutputTokens: 8192, maxStopSequences: 8, supportsSeed: false, thinkingExcludesSampling: true },
+};
+
+export type GenerationSettingsErrors = Partial<Record<keyof GenerationSettings, string>>;
+
+const isInRange = (value: number, min: number, max: number) =>
+  Number.isFinite(value) && value >= min && value <= max;
+
+// Check settings against a model's limits and return an error per invalid field
+export const validateGenerationSettings = (
+  settings: GenerationSettings,
+  limits: GenerationLimits
+): GenerationSettingsErrors => {
+  const errors: GenerationSettingsErrors = {};
+
+  if (settings.temperature !== undefined && !isInRange(settings.temperature, 0, limits.maxTemperature)) {
+    errors.temperature = `Must be between 0 and ${limits.maxTemperature}`;
+  }
+
+  if (settings.topP !== undefined && !isInRange(settings.topP, 0, 1)) {
+    errors.topP = "Must be between 0 and 1";
+  }
+
+  if (settings.topK !== undefined) {
+    if (limits.maxTopK === undefined) {
+      errors.topK = "Not supported by this model";
+    } else if (!Number.isInteger(settings.topK) || !isInRange(settings.topK, 1, limits.maxTopK)) {
+      errors.topK = `Must be a whole number between 1 and ${limits.maxTopK}`;
+    }
+  }
+
+  if (settings.maxOutputTokens !== undefined &&
+      (!Number.isInteger(settings.maxOutputTokens) || !isInRange(settings.maxOutputTokens, 1, limits.maxOutputTokens))) {
+    errors.maxOutputTokens = `Must be a whole number between 1 and ${limits.maxOutputTokens}`;
+  }
+
+  if (settings.stopSequences.length > limits.maxStopSequences) {
+    errors.stopSequences = `At most ${limits.maxStopSequences} stop sequences`;
+  }
+
+  if (settings.seed !== undefined) {
+    if (!limits.supportsSeed) {
+      errors.seed = "Not supported by this model";
+    } else if (!Number.isInteger(settings.seed)) {
+      errors.seed = "Must be a whole number";
+    }
+  }
+
+  if (settings.thinkingBudget !== undefined) {
+    const minBudget = limits.minThinkingBudget ?? 0;
+    if (limits.maxThinkingBudget === undefined) {
+      errors.thinkingBudget = "Not supported by this model";
+    } else if (!Number.isInteger(settings.thinkingBudget) || !isInRange(settings.thinkingBudget, minBudget, limits.maxThinkingBudget)) {
+      errors.thinkingBudget = `Must be a whole number between ${minBudget} and ${limits.maxThinkingBudget}`;
+    } else if (settings.maxOutputTokens !== undefined && settings.thinkingBudget >= settings.maxOutputTokens) {
+      // Thinking tokens count towards the output limit
+      errors.thinkingBudget = "Must be lower than max output tokens";
+    }
+  }
+
+  return errors;
+};
+
+// Settings for another model - values outside its limits are left to the model's defaults
+export const fitGenerationSettings = (
+  settings: GenerationSettings,
+  limits: GenerationLimits
+): GenerationSettings => {
+  const fitted = { ...settings, stopSequences: settings.stopSequences.slice(0, limits.maxStopSequences) };
+  const errors = validateGenerationSettings(fitted, limits);
+  (Object.keys(errors) as (keyof GenerationSettings)[]).forEach(field => {
+    if (field !== 'stopSequences') delete fitted[field];
+  });
+  return fitted;
+};
@@ -0,0 +1,105 @@
+// Conversation history strategies - how much of a long conversation is sent with each request
+
+export type HistoryStrategy = 'all' | 'sliding-window' | 'token-budget' | 'summarize';
+
+export type HistorySettings = {
+  strategy: HistoryStrategy;
+  maxTurns: number; // Sliding window: messages kept
+  tokenBudget: number; // Token budget: whole request, examples and template included
+  keepRecentTurns: number; // Summarize: newest messages sent as they are
+};
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  strategy: 'all',
+  maxTurns: 20,
+  tokenBudget: 32000,
+  keepRecentTurns: 6,
+};
+
+export const HISTORY_STRATEGIES: { value: HistoryStrategy; label: string; description: string }[] = [
+  {
+    value: 'all',
+    label: 'Full history',
+    description: 'Every message, every time',
+  },
+  {
+    value: 'sliding-window',
+    label: 'Sliding window',
+    description: 'Only the last N messages',
+  },
+  {
+    value: 'token-budget',
+    label: 'Token budget',
+    description: 'As many recent messages as fit the budget, after the examples and template',
+  },
+  {
+    value: 'summarize',
+    label: 'Summarize older turns',
+    description: 'Older messages are replaced by a summary the model writes',
+  },
+];
+
+// The model's summary of the messages up to and including `throughMessageId`
+export type HistorySummary = {
+  throughMessageId: string;
+  messageCount: number;
+  text: string;
+};
+
+// What a request's history contains, for the payload preview
+export type HistoryInfo = {
+  strategy: HistoryStrategy;
+  sentMessages: number;
+  totalMessages: number;
+  summarizedMessages: number;
+};
+
+type Turn = { role: string };
+
+// Move a cut point forward to a user message, so the history doesn't open with a reply
+const alignToUserTurn = (messages: Turn[], start: number): number => {
+  while (start < messages.length - 1 && messages[start].role !== 'user') start++;
+  return start;
+};
+
+// Index of the first message the sliding window keeps
+export const slidingWindowStart = (messages: Turn[], maxTurns: number): number =>
+  alignToUserTurn(messages, Math.max(0, messages.length - maxTurns));
+
+// Index of the first message that fits the budget, counting back from the newest.
+// `fixedTokens` (examples and template) always count; the newest message is always kept.
+export const tokenBudgetStart = (
+  messages: Turn[],
+  messageTokens: number[],
+  fixedTokens: number,
+  budget: number
+): number => {
+  let total = fixedTokens;
+  let start = messages.length;
+  while (start > 0) {
+    const next = total + messageTokens[start - 1];
+    if (next > budget && start < messages.length) break;
+    total = next;
+    start--;
+  }
+  return alignToUserTurn(messages, start);
+};
+
+// Index of the first of the recent messages kept when summarizing - everything before it is summarized
+export const summarizeStart = (messages: Turn[], keepRecentTurns: number): number =>
+  alignToUserTurn(messages, Math.max(0, messages.length - keepRecentTurns));
+
+// Text of the turn that stands in for the summarized messages
+export const formatSummaryTurn = (summary: HistorySummary) =>
+  `Summary of the earlier conversation:\n\n${summary.text}`;
+
+export const toTranscript = (messages: { role: string; content: string }[]): string =>
+  messages.map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`).join('\n\n');
+
+// Prompt asking the model to summarize, folding in the previous summary when extending it
+export const buildSummaryPrompt = (transcript: string, previousSummary?: string): string => [
+  "Summarize the conversation below so it can replace the original messages as context for continuing it.",
+  "Keep facts, decisions, names, numbers and open questions. Leave out pleasantries. Reply with the summary only.",
+  ...(previousSummary ? [`Summary of the conversation before these messages:\n${previousSummary}`] : []),
+  `Conversation:\n${transcript}`
+].join('\n\n');
@@ -0,0 +1,151 @@
+import type { ProviderId } from "@/lib/providers";
+
+// Inspector store - every API call made through `apiFetch` is recorded here,
+// with keys redacted, so it can be reviewed in the inspector panel.
+
+export type InspectorEntryKind = 'generate' | 'listModels' | 'countTokens' | 'embed';
+
+export type InspectorEntry = {
+  id: string;
+  kind: InspectorEntryKind;
+  provider: ProviderId;
+  startedAt: number; // Epoch ms
+  method: string;
+  url: string; // Redacted
+  requestHeaders: Record<string, string>; // Redacted
+  requestBody?: string;
+  state: 'pending' | 'done' | 'error';
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string; // Raw text - the full SSE stream for streamed calls
+  firstByteMs?: number; // Until the response headers arrived
+  durationMs?: number; // Until the whole body was read
+  error?: string;
+};
+
+export type ApiFetchMeta = {
+  kind: InspectorEntryKind;
+  provider: ProviderId;
+};
+
+// Oldest entries are dropped past this, since bodies can be large
+const MAX_ENTRIES = 100;
+
+const REDACTED = 'REDACTED';
+const SECRET_HEADERS = ['authorization', 'x-api-key', 'x-goog-api-key'];
+
+let entries: InspectorEntry[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+export const subscribeInspector = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getInspectorEntries = () => entries;
+
+export const clearInspectorEntries = () => {
+  entries = [];
+  emit();
+};
+
+const addEntry = (entry: InspectorEntry) => {
+  entries = [entry, ...entries].slice(0, MAX_ENTRIES);
+  emit();
+};
+
+const updateEntry = (id: string, changes: Partial<InspectorEntry>) => {
+  entries = entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry);
+  emit();
+};
+
+// Hide the `key` query parameter Gemini uses for authentication
+export const redactUrl = (url: string) => url.replace(/([?&]key=)[^&]*/g, `$1${REDACTED}`);
+
+export const redactHeaders = (headers: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+    name,
+    !SECRET_HEADERS.includes(name.toLowerCase())
+      ? value
+      : value.startsWith('Bearer ') ? `Bearer ${REDACTED}` : REDACTED
+  ]));
+
+const headersToObject = (headers: Headers): Record<string, string> => {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = value;
+  });
+  return result;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError'
+    ? 'Aborted'
+    : error instanceof Error ? error.message : String(error);
+
+// fetch() that records the call in the inspector. The response body is read from a clone,
+// so callers can still consume (and stream) the original.
+export const apiFetch = async (
+  url: string,
+  init: RequestInit & { headers?: Record<string, string> },
+  meta: ApiFetchMeta
+): Promise<Response> => {
+  const id = `request-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  const start = performance.now();
+  addEntry({
+    id,
+    kind: meta.kind,
+    provider: meta.provider,
+    startedAt: Date.now(),
+    method: init.method || 'GET',
+    url: redactUrl(url),
+    requestHeaders: redactHeaders(init.headers || {}),
+    requestBody: typeof init.body === 'string' ? init.body : undefined,
+    state: 'pending'
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    updateEntry(id, { state: 'error', error: errorMessage(error), durationMs: performance.now() - start });
+    throw error;
+  }
+
+  updateEntry(id, {
+    status: response.status,
+    responseHeaders: headersToObject(response.headers),
+    firstByteMs: performance.now() - start
+  });
+
+  response.clone().text().then(
+    body => updateEntry(id, {
+      state: response.ok ? 'done' : 'error',
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+      responseBody: body,
+      durationMs: performance.now() - start
+    }),
+    error => updateEntry(id, { state: 'error', error: errorMessage(error), durationMs: performance.now() - start })
+  );
+
+  return response;
+};
+
+// Quote a value for a POSIX shell
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// The request as a curl command - keys stay redacted, to be filled in by hand
+export const toCurlCommand = (entry: InspectorEntry): string => {
+  const lines = [`curl -X ${entry.method} ${shellQuote(entry.url)}`];
+  Object.entries(entry.requestHeaders).forEach(([name, value]) => {
+    lines.push(`  -H ${shellQuote(`${name}: ${value}`)}`);
+  });
+  if (entry.requestBody) {
+    lines.push(`  --data-raw ${shellQuote(entry.requestBody)}`);
+  }
+  return lines.join(' \\\n');
+};
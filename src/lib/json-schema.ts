@@ -0,0 +1,147 @@
+// Small JSON Schema subset used for structured output mode.
+// Supports the keywords Gemini's responseSchema accepts: type, properties,
+// required, items, enum, nullable, plus minItems/maxItems.
+
+export type JsonSchema = {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  nullable?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+  [key: string]: unknown;
+};
+
+export type OutputMode = 'text' | 'json';
+
+// Project-level output configuration
+export type OutputSettings = {
+  mode: OutputMode;
+  responseSchema: string; // Schema source as typed in the editor
+};
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  mode: 'text',
+  responseSchema: ""
+};
+
+// Result of checking one reply against the schema
+export type JsonValidation = {
+  valid: boolean;
+  errors: string[];
+};
+
+// Parse schema source from the editor; an empty editor means "any JSON"
+export const parseJsonSchema = (source: string): { schema?: JsonSchema; error?: string } => {
+  if (!source.trim()) return {};
+  try {
+    const schema = JSON.parse(source);
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return { error: "Schema must be a JSON object" };
+    }
+    return { schema };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+// Collect every mismatch between a value and the schema
+const collectErrors = (value: unknown, schema: JsonSchema, path: string, errors: string[]) => {
+  if (value === null && schema.nullable) return;
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    return;
+  }
+
+  const expected = schema.type?.toLowerCase();
+  const actual = typeOf(value);
+  if (expected) {
+    const matches = expected === 'integer'
+      ? Number.isInteger(value)
+      : expected === actual;
+    if (!matches) {
+      errors.push(`${path}: expected ${expected}, got ${actual}`);
+      return;
+    }
+  }
+
+  if (actual === 'object' && schema.properties) {
+    const object = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (!(key in object)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    });
+    Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+      if (key in object) {
+        collectErrors(object[key], propertySchema, `${path}.${key}`, errors);
+      }
+    });
+  }
+
+  if (actual === 'array') {
+    const array = value as unknown[];
+    if (schema.minItems !== undefined && array.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && array.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      array.forEach((item, index) => collectErrors(item, schema.items!, `${path}[${index}]`, errors));
+    }
+  }
+};
+
+// Models sometimes wrap JSON in a markdown code fence - strip it before parsing
+export const extractJsonText = (text: string): string => {
+  const fenced = /^\s*```(?:json)?\s*\n([\s\S]*?)\n?```\s*$/i.exec(text);
+  return fenced ? fenced[1] : text;
+};
+
+// Parse a reply and validate it against the schema (if any)
+export const validateJsonReply = (text: string, schema?: JsonSchema): JsonValidation => {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJsonText(text));
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]
+    };
+  }
+
+  const errors: string[] = [];
+  if (schema) {
+    collectErrors(value, schema, '$', errors);
+  }
+  return { valid: errors.length === 0, errors };
+};
+
+// Gemini expects OpenAPI-style upper-case types and rejects unknown keywords
+export const toGeminiSchema = (schema: JsonSchema): JsonSchema => {
+  const { type, properties, items, required, enum: enumValues, nullable, description, minItems, maxItems } = schema;
+  return {
+    type: type?.toUpperCase(),
+    description,
+    nullable,
+    enum: enumValues,
+    required,
+    minItems,
+    maxItems,
+    properties: properties
+      ? Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+      : undefined,
+    items: items ? toGeminiSchema(items) : undefined,
+  };
+};
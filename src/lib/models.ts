@@ -0,0 +1,102 @@
+import { ProviderId } from "@/lib/providers";
+import { DEFAULT_GENERATION_LIMITS, GenerationLimits } from "@/lib/generation-settings";
+
+// For model selection
+export type Model = {
+  name: string;
+  displayName: string;
+  provider: ProviderId;
+  version?: string;
+  description?: string;
+  limits?: Partial<GenerationLimits>; // Overrides the provider's default limits
+  inputTokenLimit?: number; // Context window, in tokens
+  outputTokenLimit?: number;
+  supportedGenerationMethods?: string[]; // As reported by the provider's models endpoint
+  supportsThinking?: boolean; // Can return thought summaries / reasoning
+};
+
+// Available models
+export const MODELS: Model[] = [
+  { name: "gemini-2.5-pro-preview-03-25", displayName: "Gemini 2.5 Pro Preview", provider: 'gemini', limits: { maxTopK: 64, maxOutputTokens: 65536, minThinkingBudget: 128, maxThinkingBudget: 32768 }, inputTokenLimit: 1048576, supportsThinking: true },
+  { name: "gemini-2.0-flash", displayName: "Gemini 2.0 Flash", provider: 'gemini', inputTokenLimit: 1048576 },
+  { name: "gemini-2.0-flash-thinking-exp-01-21", displayName: "Gemini 2.0 Flash Thinking", provider: 'gemini', limits: { maxTopK: 64, maxOutputTokens: 65536 }, inputTokenLimit: 1048576, supportsThinking: true },
+  { name: "gpt-4o-mini", displayName: "GPT-4o mini", provider: 'openai', inputTokenLimit: 128000 },
+  { name: "claude-3-5-sonnet-latest", displayName: "Claude 3.5 Sonnet", provider: 'anthropic', inputTokenLimit: 200000 },
+  { name: "claude-3-7-sonnet-latest", displayName: "Claude 3.7 Sonnet", provider: 'anthropic', limits: { maxOutputTokens: 64000, minThinkingBudget: 1024, maxThinkingBudget: 32000 }, inputTokenLimit: 200000, supportsThinking: true },
+];
+
+export const DEFAULT_MODEL = "gemini-2.0-flash";
+
+// Model used for a provider when the selected model is another provider's, e.g. in prompt exports
+export const DEFAULT_PROVIDER_MODELS: Record<ProviderId, string> = {
+  gemini: DEFAULT_MODEL,
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-sonnet-latest",
+};
+
+// Fallback context window for models that don't declare one
+const DEFAULT_INPUT_TOKEN_LIMITS: Record<ProviderId, number> = {
+  gemini: 1048576,
+  openai: 128000,
+  anthropic: 200000,
+};
+
+// Resolve which provider serves a model, honouring per-model overrides
+export const resolveModelProvider = (
+  modelName: string,
+  models: Model[],
+  modelProviders: Record<string, ProviderId>
+): ProviderId => {
+  return modelProviders[modelName]
+    || models.find(m => m.name === modelName)?.provider
+    || 'gemini';
+};
+
+// Generation limits for a model served by the given provider
+export const getGenerationLimits = (
+  modelName: string,
+  models: Model[],
+  providerId: ProviderId
+): GenerationLimits => {
+  const model = models.find(m => m.name === modelName);
+  // Model-specific limits only apply when it is served by its own provider
+  const modelLimits = model && model.provider === providerId ? model.limits : undefined;
+  return { ...DEFAULT_GENERATION_LIMITS[providerId], ...modelLimits };
+};
+
+// Context window of a model, in tokens
+export const getInputTokenLimit = (
+  modelName: string,
+  models: Model[],
+  providerId: ProviderId
+): number => {
+  return models.find(m => m.name === modelName)?.inputTokenLimit
+    || DEFAULT_INPUT_TOKEN_LIMITS[providerId];
+};
+
+// Combine the built-in list, models fetched from providers and custom models.
+// Fetched entries win over built-in ones with the same name, except for curated limits and
+// flags the models endpoints don't report reliably; fields a fetched entry lacks are kept.
+export const mergeModelLists = (
+  fetchedModels: Model[],
+  customModels: Model[]
+): Model[] => {
+  const merged = new Map<string, Model>();
+  MODELS.forEach(model => merged.set(model.name, model));
+  fetchedModels.forEach(model => {
+    const builtIn = merged.get(model.name);
+    const reported = Object.fromEntries(Object.entries(model).filter(([, value]) => value !== undefined));
+    merged.set(model.name, builtIn
+      ? {
+          ...builtIn,
+          ...reported,
+          limits: { ...model.limits, ...builtIn.limits },
+          supportsThinking: builtIn.supportsThinking ?? model.supportsThinking
+        }
+      : model);
+  });
+  customModels.forEach(model => {
+    if (!merged.has(model.name)) merged.set(model.name, model);
+  });
+  return Array.from(merged.values());
+};
@@ -0,0 +1,38 @@
+import type { Usage } from "@/lib/providers";
+
+// USD per million tokens. Thought tokens are billed at the output rate.
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+// List prices at the time of writing - editable per model from the usage dialog
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-pro-preview-03-25": { input: 1.25, output: 10 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-thinking-exp-01-21": { input: 0, output: 0 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "claude-3-5-sonnet-latest": { input: 3, output: 15 },
+  "claude-3-7-sonnet-latest": { input: 3, output: 15 },
+};
+
+// Estimated cost in USD of one request
+export const estimateCost = (usage: Usage, price: ModelPrice): number =>
+  (usage.promptTokens * price.input + (usage.outputTokens + (usage.thoughtTokens || 0)) * price.output) / 1_000_000;
+
+// Compact display that keeps small amounts readable, e.g. $0.0012 or $1.35
+export const formatCost = (cost: number): string => {
+  if (cost === 0) return '$0';
+  if (cost < 0.0001) return '<$0.0001';
+  if (cost < 0.01) return `$${cost.toPrecision(2)}`;
+  return `$${cost.toFixed(2)}`;
+};
+
+// Sum the usage of several requests (e.g. a reply and its continuation)
+export const addUsage = (a: Usage, b: Usage): Usage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thoughtTokens: a.thoughtTokens !== undefined || b.thoughtTokens !== undefined
+    ? (a.thoughtTokens || 0) + (b.thoughtTokens || 0)
+    : undefined
+});
@@ -0,0 +1,235 @@
+import { PROVIDERS, GenerateRequest, ProviderConfig, ProviderId } from "@/lib/providers";
+
+// Prompt export - the examples and template as other stacks take them.
+// Every target is built from a provider's `buildRequest`, so exports match what the app sends.
+
+export type ExportFormat = 'gemini-json' | 'openai-json' | 'anthropic-json' | 'curl' | 'typescript' | 'python' | 'text';
+
+// `providerId` is set for the targets that are built for one provider whichever is selected
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string; providerId?: ProviderId }[] = [
+  {
+    value: 'gemini-json',
+    label: 'Gemini JSON',
+    description: 'generateContent body, with `contents`',
+    providerId: 'gemini',
+  },
+  {
+    value: 'openai-json',
+    label: 'OpenAI JSON',
+    description: 'Chat completions body, with `messages`',
+    providerId: 'openai',
+  },
+  {
+    value: 'anthropic-json',
+    label: 'Anthropic JSON',
+    description: 'Messages API body',
+    providerId: 'anthropic',
+  },
+  {
+    value: 'curl',
+    label: 'curl',
+    description: 'Streaming request',
+  },
+  {
+    value: 'typescript',
+    label: 'TypeScript SDK',
+    description: 'Official SDK',
+  },
+  {
+    value: 'python',
+    label: 'Python SDK',
+    description: 'Official SDK',
+  },
+  {
+    value: 'text',
+    label: 'Plain text',
+    description: 'For pasting into other chatbots',
+  },
+];
+
+// Environment variable each snippet reads the API key from - keys are never exported
+const API_KEY_VARIABLES: Record<ProviderId, string> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+// Drop undefined fields, as JSON.stringify would
+const withoutUndefined = (value: any): any => JSON.parse(JSON.stringify(value));
+
+// The provider's request body, minus the streaming options the app uses
+const buildBody = (providerId: ProviderId, request: GenerateRequest, config: ProviderConfig) => {
+  const { stream: _stream, stream_options: _streamOptions, ...body } = PROVIDERS[providerId].buildRequest(request, config).body;
+  return withoutUndefined(body);
+};
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Single-quote a string for a POSIX shell
+const shellQuote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+
+const buildCurl = (providerId: ProviderId, request: GenerateRequest, config: ProviderConfig): string => {
+  const provider = PROVIDERS[providerId];
+  // The key placeholder is swapped for the variable afterwards, outside the single quotes
+  const placeholder = '__API_KEY__';
+  const withKey = provider.requiresApiKey || !!config.apiKey;
+  const { url, headers, body } = provider.buildRequest(request, { ...config, apiKey: withKey ? placeholder : '' });
+  const quote = (text: string) => shellQuote(text).replace(placeholder, `'"$${API_KEY_VARIABLES[providerId]}"'`);
+  return [
+    `curl -N ${quote(url)}`,
+    ...Object.entries(headers).map(([name, value]) => `  -H ${quote(`${name}: ${value}`)}`),
+    `  -d ${shellQuote(JSON.stringify(withoutUndefined(body)))}`
+  ].join(' \\\n');
+};
+
+// A JSON value as a Python literal
+const toPython = (value: any, indent = ''): string => {
+  if (value === null) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value !== 'object') return JSON.stringify(value);
+  const inner = `${indent}    `;
+  const items = Array.isArray(value)
+    ? value.map(item => `${inner}${toPython(item, inner)}`)
+    : Object.entries(value).map(([key, item]) => `${inner}${JSON.stringify(key)}: ${toPython(item, inner)}`);
+  if (items.length === 0) return Array.isArray(value) ? '[]' : '{}';
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  return `${open}\n${items.join(',\n')},\n${indent}${close}`;
+};
+
+// Keyword arguments for a Python call, one per line
+const toPythonKwargs = (args: Record<string, any>) =>
+  Object.entries(args).map(([key, value]) => `    ${key}=${toPython(value, '    ')},`).join('\n');
+
+// Object properties for a TypeScript call, without the outer braces
+const toTypeScriptProperties = (args: Record<string, any>) =>
+  toJson(args).slice(2, -2);
+
+// Gemini's SDK takes the generation settings, system instruction and safety settings as one config
+const toGeminiSdkArgs = (request: GenerateRequest, config: ProviderConfig) => {
+  const { contents, systemInstruction, safetySettings, generationConfig } = buildBody('gemini', request, config);
+  return {
+    model: request.model,
+    contents,
+    config: withoutUndefined({ systemInstruction, safetySettings, ...generationConfig })
+  };
+};
+
+// SDK base URL option, when the provider isn't at its default address
+const customBaseUrl = (providerId: ProviderId, config: ProviderConfig): string | undefined => {
+  if (config.baseUrl === PROVIDERS[providerId].defaultBaseUrl) return undefined;
+  // Anthropic's SDK adds the /v1 itself
+  return providerId === 'anthropic' ? config.baseUrl.replace(/\/v1\/*$/, '') : config.baseUrl;
+};
+
+const buildTypeScript = (providerId: ProviderId, request: GenerateRequest, config: ProviderConfig): string => {
+  const apiKey = `process.env.${API_KEY_VARIABLES[providerId]}`;
+  const baseUrl = customBaseUrl(providerId, config);
+  const baseUrlOption = baseUrl ? `, baseURL: ${JSON.stringify(baseUrl)}` : '';
+
+  if (providerId === 'gemini') {
+    return [
+      `import { GoogleGenAI } from "@google/genai";`,
+      ``,
+      `const ai = new GoogleGenAI({ apiKey: ${apiKey} });`,
+      ``,
+      `const response = await ai.models.generateContent({`,
+      toTypeScriptProperties(toGeminiSdkArgs(request, config)),
+      `});`,
+      `console.log(response.text);`
+    ].join('\n');
+  }
+  if (providerId === 'openai') {
+    return [
+      `import OpenAI from "openai";`,
+      ``,
+      `const client = new OpenAI({ apiKey: ${apiKey}${baseUrlOption} });`,
+      ``,
+      `const response = await client.chat.completions.create({`,
+      toTypeScriptProperties(buildBody('openai', request, config)),
+      `});`,
+      `console.log(response.choices[0].message.content);`
+    ].join('\n');
+  }
+  return [
+    `import Anthropic from "@anthropic-ai/sdk";`,
+    ``,
+    `const client = new Anthropic({ apiKey: ${apiKey}${baseUrlOption} });`,
+    ``,
+    `const response = await client.messages.create({`,
+    toTypeScriptProperties(buildBody('anthropic', request, config)),
+    `});`,
+    `console.log(response.content.map(block => block.type === "text" ? block.text : "").join(""));`
+  ].join('\n');
+};
+
+const buildPython = (providerId: ProviderId, request: GenerateRequest, config: ProviderConfig): string => {
+  const apiKey = `os.environ[${JSON.stringify(API_KEY_VARIABLES[providerId])}]`;
+  const baseUrl = customBaseUrl(providerId, config);
+  const baseUrlOption = baseUrl ? `, base_url=${JSON.stringify(baseUrl)}` : '';
+
+  if (providerId === 'gemini') {
+    return [
+      `import os`,
+      `from google import genai`,
+      ``,
+      `client = genai.Client(api_key=${apiKey})`,
+      ``,
+      `response = client.models.generate_content(`,
+      toPythonKwargs(toGeminiSdkArgs(request, config)),
+      `)`,
+      `print(response.text)`
+    ].join('\n');
+  }
+  if (providerId === 'openai') {
+    return [
+      `import os`,
+      `from openai import OpenAI`,
+      ``,
+      `client = OpenAI(api_key=${apiKey}${baseUrlOption})`,
+      ``,
+      `response = client.chat.completions.create(`,
+      toPythonKwargs(buildBody('openai', request, config)),
+      `)`,
+      `print(response.choices[0].message.content)`
+    ].join('\n');
+  }
+  return [
+    `import os`,
+    `import anthropic`,
+    ``,
+    `client = anthropic.Anthropic(api_key=${apiKey}${baseUrlOption})`,
+    ``,
+    `response = client.messages.create(`,
+    toPythonKwargs(buildBody('anthropic', request, config)),
+    `)`,
+    `print("".join(block.text for block in response.content if block.type == "text"))`
+  ].join('\n');
+};
+
+// The request in the given format. `requests` has one request per provider, each for one of
+// that provider's models; `providerId` is the selected provider, for the targets that call it.
+// `plainText` is used as is for the plain text target.
+export const exportPrompt = (
+  format: ExportFormat,
+  requests: Record<ProviderId, GenerateRequest>,
+  providerId: ProviderId,
+  configs: Record<ProviderId, ProviderConfig>,
+  plainText: string
+): string => {
+  switch (format) {
+    case 'gemini-json':
+      return toJson(buildBody('gemini', requests.gemini, configs.gemini));
+    case 'openai-json':
+      return toJson(buildBody('openai', requests.openai, configs.openai));
+    case 'anthropic-json':
+      return toJson(buildBody('anthropic', requests.anthropic, configs.anthropic));
+    case 'curl':
+      return buildCurl(providerId, requests[providerId], configs[providerId]);
+    case 'typescript':
+      return buildTypeScript(providerId, requests[providerId], configs[providerId]);
+    case 'python':
+      return buildPython(providerId, requests[providerId], configs[providerId]);
+    case 'text':
+      return plainText;
+  }
+};
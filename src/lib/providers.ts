@@ -0,0 +1,573 @@
+import { readServerSentEvents } from "@/lib/sse";
+import type { GenerationSettings } from "@/lib/generation-settings";
+import { JsonSchema, toGeminiSchema } from "@/lib/json-schema";
+import type { Model } from "@/lib/models";
+import { SafetySettings, toGeminiSafetySettings } from "@/lib/safety-settings";
+import { decodeBase64Text } from "@/lib/attachments";
+import { ApiFetchMeta, apiFetch } from "@/lib/inspector";
+
+// Provider layer - every send path goes through one of these adapters.
+// The payload builder produces Gemini-style `contents`, and each provider
+// converts them into its own request shape.
+
+export type ProviderId = 'gemini' | 'openai' | 'anthropic';
+
+// Gemini-style content, used as the shared format across providers.
+// Files (images, PDFs, text) travel as base64 `inlineData` parts.
+export type InlineData = { mimeType: string; data: string };
+export type ApiPart = { text: string } | { inlineData: InlineData };
+export type ApiContent = {
+  role: 'user' | 'model';
+  parts: ApiPart[];
+};
+
+// Per-provider connection settings
+export type ProviderConfig = {
+  apiKey: string;
+  baseUrl: string;
+};
+
+// What the payload builder produces for one request
+export type ApiPayload = {
+  contents: ApiContent[];
+  systemInstruction?: string;
+};
+
+export type GenerateRequest = ApiPayload & {
+  model: string;
+  generationSettings: GenerationSettings;
+  // Set when the reply must be JSON, optionally matching a schema
+  jsonOutput?: { schema?: JsonSchema };
+  // Set for models that can return their reasoning
+  thinking?: { budget?: number };
+  // Harm category thresholds, for providers with configurable safety filters
+  safetySettings?: SafetySettings;
+};
+
+// Why a response ended, normalized across providers
+export type FinishReason = 'stop' | 'max_tokens' | 'safety' | 'recitation' | 'blocked' | 'other';
+
+export type SafetyRating = {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+};
+
+export type FinishDetails = {
+  reason: FinishReason;
+  providerReason: string; // As reported by the provider, e.g. "MAX_TOKENS" or "length"
+  safetyRatings?: SafetyRating[];
+};
+
+// Token usage reported by the provider for one request
+export type Usage = {
+  promptTokens: number;
+  outputTokens: number; // Excludes thought tokens where the provider reports them separately
+  thoughtTokens?: number;
+};
+
+export type GenerateResult = {
+  text: string;
+  reasoning: string; // Thought summaries, for thinking models
+  finish?: FinishDetails;
+  usage?: Usage;
+};
+
+// Incremental update parsed from one streamed event
+export type StreamDelta = {
+  text?: string;
+  reasoning?: string;
+  finish?: FinishDetails;
+  usage?: Partial<Usage>; // Some providers report input and output counts in separate events
+};
+
+// A fully built streaming HTTP request, ready to be sent with fetch
+export type ProviderRequest = {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+};
+
+export type Provider = {
+  id: ProviderId;
+  displayName: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  buildRequest: (request: GenerateRequest, config: ProviderConfig) => ProviderRequest;
+  parseStreamEvent: (event: any) => StreamDelta;
+  // Models available with the given key, from the provider's models endpoint
+  listModels: (config: ProviderConfig, signal?: AbortSignal) => Promise<Model[]>;
+  // Exact token count, for providers that expose a counting endpoint
+  countTokens?: (model: string, contents: ApiContent[], config: ProviderConfig, signal?: AbortSignal) => Promise<number>;
+  // One embedding vector per text, for providers that expose an embeddings endpoint
+  embed?: (model: string, texts: string[], config: ProviderConfig, signal?: AbortSignal) => Promise<number[][]>;
+  defaultEmbeddingModel?: string;
+};
+
+const isTextPart = (part: ApiPart): part is { text: string } => 'text' in part;
+
+// Join the text parts of a content entry
+const contentText = (content: ApiContent): string =>
+  content.parts.filter(isTextPart).map(part => part.text).join('\n\n');
+
+const inlineDataUrl = ({ mimeType, data }: InlineData) => `data:${mimeType};base64,${data}`;
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+// GET a JSON endpoint, throwing on non-2xx responses
+const fetchJson = async (url: string, headers: Record<string, string>, meta: ApiFetchMeta, signal?: AbortSignal) => {
+  const response = await apiFetch(url, { headers, signal }, meta);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`API error: ${response.status} - ${errorText}`);
+  }
+  return response.json();
+};
+
+// Stop sequences are only sent when there are any
+const stopSequencesOrUndefined = (settings: GenerationSettings) =>
+  settings.stopSequences.length > 0 ? settings.stopSequences : undefined;
+
+// Map a provider's finish reason onto the shared set
+const toFinishDetails = (
+  reasons: Record<string, FinishReason>,
+  providerReason: string | null | undefined,
+  safetyRatings?: SafetyRating[]
+): FinishDetails | undefined =>
+  providerReason
+    ? { reason: reasons[providerReason] ?? 'other', providerReason, safetyRatings }
+    : undefined;
+
+const GEMINI_FINISH_REASONS: Record<string, FinishReason> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'max_tokens',
+  SAFETY: 'safety',
+  BLOCKLIST: 'safety',
+  PROHIBITED_CONTENT: 'safety',
+  SPII: 'safety',
+  IMAGE_SAFETY: 'safety',
+  RECITATION: 'recitation',
+};
+
+// Google Gemini (generativelanguage.googleapis.com), streamed over SSE
+const geminiProvider: Provider = {
+  id: 'gemini',
+  displayName: 'Google Gemini',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  requiresApiKey: true,
+  buildRequest: ({ model, contents, systemInstruction, generationSettings, jsonOutput, thinking, safetySettings }, config) => ({
+    url: `${trimTrailingSlash(config.baseUrl)}/models/${model}:streamGenerateContent?alt=sse&key=${config.apiKey}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      systemInstruction: systemInstruction ? { parts: [{ text: systemInstruction }] } : undefined,
+      contents,
+      safetySettings: safetySettings ? toGeminiSafetySettings(safetySettings) : undefined,
+      generationConfig: {
+        responseMimeType: jsonOutput ? "application/json" : "text/plain",
+        responseSchema: jsonOutput?.schema ? toGeminiSchema(jsonOutput.schema) : undefined,
+        temperature: generationSettings.temperature,
+        topP: generationSettings.topP,
+        topK: generationSettings.topK,
+        maxOutputTokens: generationSettings.maxOutputTokens,
+        stopSequences: stopSequencesOrUndefined(generationSettings),
+        seed: generationSettings.seed,
+        thinkingConfig: thinking
+          ? { includeThoughts: true, thinkingBudget: thinking.budget }
+          : undefined,
+      }
+    }
+  }),
+  parseStreamEvent: (event) => {
+    // A chunk can hold several parts - thought parts are flagged with `thought: true`
+    const candidate = event.candidates?.[0];
+    const parts: any[] = candidate?.content?.parts || [];
+    // A blocked prompt comes back with prompt feedback and no candidates
+    const blockReason = event.promptFeedback?.blockReason;
+    return {
+      text: parts.filter(part => !part.thought && part.text).map(part => part.text).join(''),
+      reasoning: parts.filter(part => part.thought && part.text).map(part => part.text).join(''),
+      finish: blockReason
+        ? { reason: 'blocked', providerReason: blockReason, safetyRatings: event.promptFeedback.safetyRatings }
+        : toFinishDetails(GEMINI_FINISH_REASONS, candidate?.finishReason, candidate?.safetyRatings),
+      // Every chunk carries the running totals
+      usage: event.usageMetadata && {
+        promptTokens: event.usageMetadata.promptTokenCount || 0,
+        outputTokens: event.usageMetadata.candidatesTokenCount || 0,
+        thoughtTokens: event.usageMetadata.thoughtsTokenCount
+      }
+    };
+  },
+  listModels: async (config, signal) => {
+    const result = await fetchJson(
+      `${trimTrailingSlash(config.baseUrl)}/models?pageSize=1000&key=${config.apiKey}`,
+      {},
+      { kind: 'listModels', provider: 'gemini' },
+      signal
+    );
+    return (result.models || [])
+      // Only models that can chat - skips embedding and AQA models
+      .filter((model: any) => model.supportedGenerationMethods?.includes('generateContent'))
+      .map((model: any): Model => ({
+        name: model.name.replace(/^models\//, ''),
+        displayName: model.displayName || model.name,
+        provider: 'gemini',
+        version: model.version,
+        description: model.description,
+        inputTokenLimit: model.inputTokenLimit,
+        outputTokenLimit: model.outputTokenLimit,
+        supportedGenerationMethods: model.supportedGenerationMethods,
+        // Left undefined when not reported, so curated values aren't overwritten
+        supportsThinking: model.thinking ? true : undefined,
+        limits: {
+          ...(model.maxTemperature ? { maxTemperature: model.maxTemperature } : {}),
+          ...(model.outputTokenLimit ? { maxOutputTokens: model.outputTokenLimit } : {})
+        }
+      }));
+  },
+  countTokens: async (model, contents, config, signal) => {
+    const response = await apiFetch(
+      `${trimTrailingSlash(config.baseUrl)}/models/${model}:countTokens?key=${config.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contents }),
+        signal
+      },
+      { kind: 'countTokens', provider: 'gemini' }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    return result.totalTokens || 0;
+  },
+  defaultEmbeddingModel: 'text-embedding-004',
+  embed: async (model, texts, config, signal) => {
+    const response = await apiFetch(
+      `${trimTrailingSlash(config.baseUrl)}/models/${model}:batchEmbedContents?key=${config.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: texts.map(text => ({ model: `models/${model}`, content: { parts: [{ text }] } }))
+        }),
+        signal
+      },
+      { kind: 'embed', provider: 'gemini' }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    return (result.embeddings || []).map((embedding: any) => embedding.values || []);
+  }
+};
+
+// Chat completions content - a plain string unless the turn carries files
+const toOpenAiContent = (content: ApiContent) => {
+  if (content.parts.every(isTextPart)) return contentText(content);
+  return content.parts.map(part => {
+    if (isTextPart(part)) return { type: 'text', text: part.text };
+    const { inlineData } = part;
+    if (inlineData.mimeType.startsWith('image/')) {
+      return { type: 'image_url', image_url: { url: inlineDataUrl(inlineData) } };
+    }
+    // Text files are inlined, since only images and PDFs can be sent as files
+    if (inlineData.mimeType.startsWith('text/')) {
+      return { type: 'text', text: decodeBase64Text(inlineData.data) };
+    }
+    return { type: 'file', file: { filename: 'attachment.pdf', file_data: inlineDataUrl(inlineData) } };
+  });
+};
+
+const OPENAI_FINISH_REASONS: Record<string, FinishReason> = {
+  stop: 'stop',
+  length: 'max_tokens',
+  content_filter: 'safety',
+};
+
+// OpenAI-compatible chat completions - also covers local servers such as
+// Ollama (http://localhost:11434/v1) and llama.cpp (http://localhost:8080/v1)
+const openAiProvider: Provider = {
+  id: 'openai',
+  displayName: 'OpenAI-compatible',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: false, // Local servers usually don't need a key
+  buildRequest: ({ model, contents, systemInstruction, generationSettings, jsonOutput }, config) => ({
+    url: `${trimTrailingSlash(config.baseUrl)}/chat/completions`,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+    },
+    body: {
+      model,
+      stream: true,
+      // Ask for a final chunk with token usage
+      stream_options: { include_usage: true },
+      temperature: generationSettings.temperature,
+      top_p: generationSettings.topP,
+      max_tokens: generationSettings.maxOutputTokens,
+      stop: stopSequencesOrUndefined(generationSettings),
+      seed: generationSettings.seed,
+      response_format: jsonOutput
+        ? jsonOutput.schema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: jsonOutput.schema } }
+          : { type: 'json_object' }
+        : undefined,
+      messages: [
+        ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+        ...contents.map(content => ({
+          role: content.role === 'model' ? 'assistant' : 'user',
+          content: toOpenAiContent(content)
+        }))
+      ]
+    }
+  }),
+  parseStreamEvent: (event) => {
+    const reasoningTokens = event.usage?.completion_tokens_details?.reasoning_tokens;
+    return {
+      text: event.choices?.[0]?.delta?.content,
+      // Reasoning servers (DeepSeek, llama.cpp, ...) stream thoughts separately
+      reasoning: event.choices?.[0]?.delta?.reasoning_content,
+      finish: toFinishDetails(OPENAI_FINISH_REASONS, event.choices?.[0]?.finish_reason),
+      // completion_tokens includes the reasoning tokens
+      usage: event.usage && {
+        promptTokens: event.usage.prompt_tokens || 0,
+        outputTokens: (event.usage.completion_tokens || 0) - (reasoningTokens || 0),
+        thoughtTokens: reasoningTokens
+      }
+    };
+  },
+  listModels: async (config, signal) => {
+    const result = await fetchJson(
+      `${trimTrailingSlash(config.baseUrl)}/models`,
+      config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+      { kind: 'listModels', provider: 'openai' },
+      signal
+    );
+    return (result.data || []).map((model: any): Model => ({
+      name: model.id,
+      displayName: model.id,
+      provider: 'openai'
+    }));
+  },
+  defaultEmbeddingModel: 'text-embedding-3-small',
+  embed: async (model, texts, config, signal) => {
+    const response = await apiFetch(
+      `${trimTrailingSlash(config.baseUrl)}/embeddings`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model, input: texts }),
+        signal
+      },
+      { kind: 'embed', provider: 'openai' }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    // Sorted by index, since the order of `data` isn't guaranteed
+    return [...(result.data || [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding || []);
+  }
+};
+
+// The Messages API has no JSON mode, so the requirement goes into the system prompt
+const withJsonInstruction = (systemInstruction: string | undefined, jsonOutput: GenerateRequest['jsonOutput']) => {
+  if (!jsonOutput) return systemInstruction;
+  const jsonInstruction = jsonOutput.schema
+    ? `Respond only with JSON that matches this JSON schema:\n${JSON.stringify(jsonOutput.schema, null, 2)}`
+    : "Respond only with valid JSON.";
+  return systemInstruction ? `${systemInstruction}\n\n${jsonInstruction}` : jsonInstruction;
+};
+
+// Messages API content - a plain string unless the turn carries files
+const toAnthropicContent = (content: ApiContent) => {
+  if (content.parts.every(isTextPart)) return contentText(content);
+  return content.parts.map(part => {
+    if (isTextPart(part)) return { type: 'text', text: part.text };
+    const { mimeType, data } = part.inlineData;
+    if (mimeType.startsWith('image/')) {
+      return { type: 'image', source: { type: 'base64', media_type: mimeType, data } };
+    }
+    if (mimeType.startsWith('text/')) {
+      return { type: 'text', text: decodeBase64Text(data) };
+    }
+    return { type: 'document', source: { type: 'base64', media_type: mimeType, data } };
+  });
+};
+
+const ANTHROPIC_FINISH_REASONS: Record<string, FinishReason> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'max_tokens',
+  refusal: 'safety',
+};
+
+// Anthropic Messages API
+const anthropicProvider: Provider = {
+  id: 'anthropic',
+  displayName: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  requiresApiKey: true,
+  buildRequest: ({ model, contents, systemInstruction, generationSettings, jsonOutput, thinking }, config) => {
+    // Extended thinking is opt-in: it is only turned on by an explicit budget
+    const thinkingBudget = thinking?.budget;
+    return {
+      url: `${trimTrailingSlash(config.baseUrl)}/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        // Required for calling the API directly from the browser
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: {
+        model,
+        // Required by the Messages API, and must leave room for the thinking budget
+        max_tokens: generationSettings.maxOutputTokens ?? (thinkingBudget ?? 0) + 4096,
+        stream: true,
+        // Sampling settings are rejected while thinking - the settings editor warns about this
+        temperature: thinkingBudget ? undefined : generationSettings.temperature,
+        top_p: thinkingBudget ? undefined : generationSettings.topP,
+        top_k: thinkingBudget ? undefined : generationSettings.topK,
+        stop_sequences: stopSequencesOrUndefined(generationSettings),
+        system: withJsonInstruction(systemInstruction, jsonOutput) || undefined,
+        thinking: thinkingBudget
+          ? { type: 'enabled', budget_tokens: thinkingBudget }
+          : undefined,
+        messages: contents.map(content => ({
+          role: content.role === 'model' ? 'assistant' : 'user',
+          content: toAnthropicContent(content)
+        }))
+      }
+    };
+  },
+  parseStreamEvent: (event) => ({
+    text: event.type === 'content_block_delta' && event.delta?.type === 'text_delta'
+      ? event.delta.text
+      : undefined,
+    reasoning: event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta'
+      ? event.delta.thinking
+      : undefined,
+    finish: event.type === 'message_delta'
+      ? toFinishDetails(ANTHROPIC_FINISH_REASONS, event.delta?.stop_reason)
+      : undefined,
+    // Input tokens arrive with message_start, the final output count with message_delta
+    usage: event.type === 'message_start' && event.message?.usage
+      ? { promptTokens: event.message.usage.input_tokens || 0 }
+      : event.type === 'message_delta' && event.usage
+        ? { outputTokens: event.usage.output_tokens || 0 }
+        : undefined
+  }),
+  listModels: async (config, signal) => {
+    const result = await fetchJson(
+      `${trimTrailingSlash(config.baseUrl)}/models?limit=1000`,
+      {
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      { kind: 'listModels', provider: 'anthropic' },
+      signal
+    );
+    return (result.data || []).map((model: any): Model => ({
+      name: model.id,
+      displayName: model.display_name || model.id,
+      provider: 'anthropic'
+    }));
+  }
+};
+
+export const PROVIDERS: Record<ProviderId, Provider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  anthropic: anthropicProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+// Default connection settings for every provider
+export const createDefaultProviderConfigs = (): Record<ProviderId, ProviderConfig> => ({
+  gemini: { apiKey: "", baseUrl: geminiProvider.defaultBaseUrl },
+  openai: { apiKey: "", baseUrl: openAiProvider.defaultBaseUrl },
+  anthropic: { apiKey: "", baseUrl: anthropicProvider.defaultBaseUrl },
+});
+
+// Options for a single generate call
+export type GenerateOptions = {
+  // Called with the accumulated text and reasoning every time a new chunk arrives
+  onUpdate?: (result: GenerateResult) => void;
+  // Aborts the request and the stream
+  signal?: AbortSignal;
+};
+
+// Send a request through a provider and stream back the response
+export const generate = async (
+  provider: Provider,
+  request: GenerateRequest,
+  config: ProviderConfig,
+  { onUpdate, signal }: GenerateOptions = {}
+): Promise<GenerateResult> => {
+  const { url, headers, body } = provider.buildRequest(request, config);
+
+  const response = await apiFetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal
+  }, { kind: 'generate', provider: provider.id });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`API error: ${response.status} - ${errorText}`);
+  }
+
+  let text = "";
+  let reasoning = "";
+  let finish: FinishDetails | undefined;
+  let usage: Partial<Usage> | undefined;
+  await readServerSentEvents(response, (data) => {
+    // OpenAI-compatible servers close the stream with a sentinel
+    if (data === '[DONE]') return;
+
+    const event = JSON.parse(data);
+    if (event.error) {
+      throw new Error(`API error: ${event.error.message || JSON.stringify(event.error)}`);
+    }
+
+    const delta = provider.parseStreamEvent(event);
+    if (delta.finish) {
+      finish = delta.finish;
+    }
+    if (delta.usage) {
+      usage = { ...usage, ...delta.usage };
+    }
+    if (delta.text || delta.reasoning) {
+      text += delta.text || "";
+      reasoning += delta.reasoning || "";
+      onUpdate?.({ text, reasoning });
+    }
+  });
+
+  return {
+    text,
+    reasoning,
+    finish,
+    usage: usage && { promptTokens: usage.promptTokens || 0, outputTokens: usage.outputTokens || 0, thoughtTokens: usage.thoughtTokens }
+  };
+};
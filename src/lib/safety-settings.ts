@@ -0,0 +1,49 @@
+// Gemini safety filters - one block threshold per harm category.
+// Categories without a threshold use the model's default.
+
+export type HarmCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+export type HarmBlockThreshold =
+  | 'BLOCK_LOW_AND_ABOVE'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_NONE'
+  | 'OFF';
+
+export type SafetySettings = Partial<Record<HarmCategory, HarmBlockThreshold>>;
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = {};
+
+export const HARM_CATEGORIES: { value: HarmCategory; label: string }[] = [
+  { value: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+  { value: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+  { value: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+  { value: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+  { value: 'HARM_CATEGORY_CIVIC_INTEGRITY', label: 'Civic integrity' },
+];
+
+// Ordered from strictest to most permissive
+export const HARM_BLOCK_THRESHOLDS: { value: HarmBlockThreshold; label: string }[] = [
+  { value: 'BLOCK_LOW_AND_ABOVE', label: 'Block low and above' },
+  { value: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block medium and above' },
+  { value: 'BLOCK_ONLY_HIGH', label: 'Block only high' },
+  { value: 'BLOCK_NONE', label: 'Block none' },
+  { value: 'OFF', label: 'Off' },
+];
+
+// Number of categories that override the model default
+export const countCustomSafetySettings = (settings: SafetySettings): number =>
+  HARM_CATEGORIES.filter(({ value }) => settings[value] !== undefined).length;
+
+// Gemini `safetySettings` entries - only the categories that differ from the default
+export const toGeminiSafetySettings = (settings: SafetySettings) => {
+  const entries = HARM_CATEGORIES
+    .filter(({ value }) => settings[value] !== undefined)
+    .map(({ value }) => ({ category: value, threshold: settings[value]! }));
+  return entries.length > 0 ? entries : undefined;
+};
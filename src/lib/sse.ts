@@ -0,0 +1,44 @@
+// Minimal Server-Sent Events reader for streamed fetch responses.
+// Calls onData with the payload of every `data:` event as it arrives.
+export const readServerSentEvents = async (
+  response: Response,
+  onData: (data: string) => void
+) => {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  // Dispatch one complete event block (lines up to a blank line)
+  const dispatch = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data) {
+      onData(data);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || "";
+    blocks.forEach(dispatch);
+  }
+
+  // Flush whatever is left once the stream closes
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+};
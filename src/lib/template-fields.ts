@@ -0,0 +1,110 @@
+import { Attachment, decodeBase64Text } from "@/lib/attachments";
+
+// Template fields - the kind of value a variable block takes, and the rules it must meet before a run
+
+export type TemplateFieldType = 'text' | 'long-text' | 'select' | 'number' | 'boolean' | 'file';
+
+export type TemplateField = {
+  type: TemplateFieldType;
+  required?: boolean;
+  min?: number; // Number: lowest value. Text: fewest characters. File: fewest files
+  max?: number; // Number: highest value. Text: most characters. File: most files
+  options?: string[]; // Select: one per line as typed - blank lines are ignored
+};
+
+export const TEMPLATE_FIELD_TYPES: { value: TemplateFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'long-text', label: 'Long text' },
+  { value: 'select', label: 'Select' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'file', label: 'File' },
+];
+
+// Variable blocks from before field types were a free-form textarea
+export const LEGACY_TEMPLATE_FIELD: TemplateField = { type: 'long-text' };
+
+// Field types that take min/max rules
+export const hasRangeRules = (type: TemplateFieldType) =>
+  type === 'number' || type === 'text' || type === 'long-text' || type === 'file';
+
+export const getFieldOptions = (field: TemplateField): string[] =>
+  (field.options || []).map(option => option.trim()).filter(option => option);
+
+const isTextFile = (attachment: Attachment) => attachment.mimeType.startsWith('text/');
+
+// Files of a field that are sent as file parts rather than inline text
+export const getBinaryAttachments = (attachments: Attachment[] = []) =>
+  attachments.filter(attachment => !isTextFile(attachment));
+
+const pluralFiles = (count: number) => `${count} file${count === 1 ? '' : 's'}`;
+
+// Why a value doesn't meet the field's rules, or null when it does
+export const validateFieldValue = (
+  field: TemplateField,
+  value: string,
+  attachments: Attachment[] = []
+): string | null => {
+  const trimmed = value.trim();
+  const { min, max } = field;
+
+  switch (field.type) {
+    case 'boolean':
+      return field.required && value !== 'true' ? 'Must be checked' : null;
+    case 'file':
+      if (field.required && attachments.length === 0) return 'Attach a file';
+      if (attachments.length > 0 && min !== undefined && attachments.length < min) return `Attach at least ${pluralFiles(min)}`;
+      if (max !== undefined && attachments.length > max) return `Attach at most ${pluralFiles(max)}`;
+      return null;
+    case 'number': {
+      if (!trimmed) return field.required ? 'Required' : null;
+      const number = Number(trimmed);
+      if (!Number.isFinite(number)) return 'Enter a number';
+      if (min !== undefined && number < min) return `Must be at least ${min}`;
+      if (max !== undefined && number > max) return `Must be at most ${max}`;
+      return null;
+    }
+    case 'select':
+      if (!trimmed) return field.required ? 'Choose an option' : null;
+      return getFieldOptions(field).includes(value) ? null : 'Not one of the options';
+    default:
+      if (!trimmed) return field.required ? 'Required' : null;
+      if (min !== undefined && value.length < min) return `At least ${min} characters`;
+      if (max !== undefined && value.length > max) return `At most ${max} characters`;
+      return null;
+  }
+};
+
+// Why the field's own rules don't make sense, e.g. min above max, or null when they do
+export const validateFieldRules = (field: TemplateField): string | null => {
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    return 'Min is above max';
+  }
+  if (field.type === 'select' && getFieldOptions(field).length === 0) {
+    return 'Add at least one option';
+  }
+  return null;
+};
+
+// A value as it is sent - text files are inlined, other files are referenced by name
+// and sent as file parts after the template text
+export const formatFieldValue = (
+  field: TemplateField,
+  value: string,
+  attachments: Attachment[] = []
+): string => {
+  switch (field.type) {
+    case 'boolean':
+      return value === 'true' ? 'Yes' : 'No';
+    case 'number':
+      return value.trim() && Number.isFinite(Number(value)) ? String(Number(value)) : value.trim();
+    case 'file':
+      return attachments
+        .map(attachment => isTextFile(attachment)
+          ? `<file name="${attachment.name}">\n${decodeBase64Text(attachment.data)}\n</file>`
+          : `[Attached file: ${attachment.name}]`)
+        .join('\n\n');
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,28 @@
+// Template variables - `{{name}}` placeholders in template text, filled in at run time
+
+export type TemplateVariableValues = Record<string, string>;
+
+// Matches {{name}} with optional spaces inside the braces
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// Placeholder names in the order they first appear
+export const extractVariableNames = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+// Replace placeholders with their values; placeholders without a value are left as written
+export const substituteVariables = (text: string, values: TemplateVariableValues): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+// Turn a free-form label into a valid variable name, e.g. "Product name" -> "product_name"
+export const toVariableName = (label: string): string => {
+  const name = label.trim().replace(/[^\w-]+/g, '_').replace(/^[^A-Za-z_]+/, '');
+  return name || 'variable';
+};
+
+// The placeholder text for a variable, e.g. "{{topic}}"
+export const toPlaceholder = (name: string) => `{{${name}}}`;
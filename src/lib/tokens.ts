@@ -0,0 +1,38 @@
+import type { ApiContent, ApiPart } from "@/lib/providers";
+
+// Sections of the payload that the token meter breaks down
+export type TokenSection = 'examples' | 'template' | 'history' | 'draft';
+
+export const TOKEN_SECTIONS: TokenSection[] = ['examples', 'template', 'history', 'draft'];
+
+export const TOKEN_SECTION_LABELS: Record<TokenSection, string> = {
+  examples: 'Examples',
+  template: 'Template',
+  history: 'History',
+  draft: 'Draft',
+};
+
+// Rough local estimate (~4 characters per token) used when the API can't be reached
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Images cost a fixed amount on Gemini; other files are estimated from their decoded size
+const IMAGE_TOKEN_ESTIMATE = 258;
+
+const estimatePartTokens = (part: ApiPart): number => {
+  if ('text' in part) return estimateTokens(part.text);
+  if (part.inlineData.mimeType.startsWith('image/')) return IMAGE_TOKEN_ESTIMATE;
+  return Math.ceil((part.inlineData.data.length * 3) / 4 / 4);
+};
+
+export const estimateContentTokens = (contents: ApiContent[]): number =>
+  contents.reduce(
+    (total, content) => total + content.parts.reduce((sum, part) => sum + estimatePartTokens(part), 0),
+    0
+  );
+
+// Compact display, e.g. 12.3k or 1M
+export const formatTokenCount = (count: number): string => {
+  if (count >= 1_000_000) return `${+(count / 1_000_000).toFixed(2)}M`;
+  if (count >= 1_000) return `${+(count / 1_000).toFixed(1)}k`;
+  return String(count);
+};